@@ -1 +0,0 @@
-curl -X GET http://localhost:3000/api/cron
\ No newline at end of file
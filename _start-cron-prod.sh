@@ -1 +0,0 @@
-curl -X GET https://flowfusion.huudle.io/api/cron
\ No newline at end of file
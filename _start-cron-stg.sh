@@ -1 +0,0 @@
-curl -X GET https://flow-fusion.netlify.app/api/cron
\ No newline at end of file
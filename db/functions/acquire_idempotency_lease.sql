@@ -0,0 +1,38 @@
+CREATE OR REPLACE FUNCTION acquire_idempotency_lease(key_param text, owner_param text, lease_seconds_param int)
+    RETURNS text
+    AS $$
+DECLARE
+    acquired_key text;
+    existing_status text;
+BEGIN
+    -- Take the key if it is new, or if the previous holder's lease ran out
+    INSERT INTO pipeline_idempotency_keys(key, status, lease_owner, lease_expires_at)
+        VALUES (key_param, 'in_progress', owner_param, now() + make_interval(secs => lease_seconds_param))
+    ON CONFLICT (key)
+        DO UPDATE SET
+            lease_owner = EXCLUDED.lease_owner,
+            lease_expires_at = EXCLUDED.lease_expires_at
+        WHERE
+            pipeline_idempotency_keys.status = 'in_progress'
+            AND(pipeline_idempotency_keys.lease_expires_at IS NULL
+                OR pipeline_idempotency_keys.lease_expires_at < now())
+        RETURNING
+            key INTO acquired_key;
+    IF acquired_key IS NOT NULL THEN
+        RETURN 'acquired';
+    END IF;
+    SELECT
+        status INTO existing_status
+    FROM
+        pipeline_idempotency_keys
+    WHERE
+        key = key_param;
+    RETURN CASE WHEN existing_status = 'completed' THEN
+        'completed'
+    ELSE
+        'busy'
+    END;
+END;
+
+$$
+LANGUAGE plpgsql;
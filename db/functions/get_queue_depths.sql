@@ -0,0 +1,18 @@
+CREATE OR REPLACE FUNCTION get_queue_depths()
+    RETURNS TABLE(
+        queue_name text,
+        queue_length bigint
+    )
+    SECURITY DEFINER
+    SET search_path = ''
+    AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        m.queue_name,
+        m.queue_length
+    FROM
+        pgmq.metrics_all() m;
+END;
+$$
+LANGUAGE plpgsql;
@@ -0,0 +1,23 @@
+CREATE OR REPLACE FUNCTION increment_personalized_usage(profile_id_param uuid)
+    RETURNS int
+    AS $$
+DECLARE
+    new_count int;
+BEGIN
+    -- One statement, so concurrent sends can't overwrite each other's count
+    UPDATE
+        subscriptions
+    SET
+        personalized_usage_count = personalized_usage_count + 1
+    WHERE
+        profile_id = profile_id_param
+        AND status = 'active'
+    RETURNING
+        personalized_usage_count INTO new_count;
+    IF new_count IS NULL THEN
+        RAISE EXCEPTION 'No active subscription for profile %', profile_id_param;
+    END IF;
+    RETURN new_count;
+END;
+$$
+LANGUAGE plpgsql;
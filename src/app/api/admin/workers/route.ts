@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getWorkerStatuses, setWorkerPaused } from "@/lib/supabase";
+import { getAdminProfileId } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+
+export async function GET(request: Request) {
+  try {
+    if (!(await getAdminProfileId(request))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const workers = await getWorkerStatuses();
+    return NextResponse.json({ workers });
+  } catch (error) {
+    logger.error("💥 Failed to fetch worker statuses", {
+      prefix: "API/admin/workers",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch worker statuses" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const profileId = await getAdminProfileId(request);
+    if (!profileId) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { workerName, paused } = await request.json();
+    if (!workerName || typeof paused !== "boolean") {
+      return NextResponse.json(
+        { error: "workerName and paused are required" },
+        { status: 400 }
+      );
+    }
+
+    await setWorkerPaused(workerName, paused, profileId);
+
+    logger.info(`${paused ? "⏸️ Paused" : "▶️ Resumed"} ${workerName} worker`, {
+      prefix: "API/admin/workers",
+      data: { workerName, paused, profileId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("💥 Failed to update worker", {
+      prefix: "API/admin/workers",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    return NextResponse.json(
+      { error: "Failed to update worker" },
+      { status: 500 }
+    );
+  }
+}
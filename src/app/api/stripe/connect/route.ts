@@ -297,6 +297,7 @@ async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
       end_date: new Date(subscription.current_period_end * 1000).toISOString(),
       // Reset usage count when plan changes
       usage_count: 0,
+      personalized_usage_count: 0,
     };
 
     // Update the subscription in our database
@@ -392,6 +393,7 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
         status: "active", // Set as active on the Free plan
         end_date: null, // Free plan doesn't expire
         usage_count: 0, // Reset usage
+        personalized_usage_count: 0,
       })
       .eq("profile_id", subscriptionData.profile_id);
 
@@ -535,6 +537,7 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
       ).toISOString(),
       end_date: new Date(subscription.current_period_end * 1000).toISOString(),
       usage_count: 0, // Reset usage for the new subscription
+      personalized_usage_count: 0,
     };
 
     // Update the subscription in our database using upsert
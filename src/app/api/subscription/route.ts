@@ -102,6 +102,7 @@ export async function POST(req: Request) {
           plan_id: newPlan.id,
           status: "active",
           usage_count: 0,
+          personalized_usage_count: 0,
           start_date: new Date().toISOString(),
           end_date: null,
         },
@@ -304,6 +304,7 @@ async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
             subscription.current_period_end * 1000
           ).toISOString(),
           usage_count: 0,
+          personalized_usage_count: 0,
         })
         .eq("profile_id", subscriptionData.profile_id);
 
@@ -581,6 +582,7 @@ async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
         start_date: new Date(invoice.period_start * 1000).toISOString(),
         end_date: new Date(invoice.period_end * 1000).toISOString(),
         usage_count: 0, // Reset usage counter on successful payment,
+        personalized_usage_count: 0,
         plan_id: plan.id,
         stripe_subscription_id: invoice.subscription as string, // Ensure this is set correctly
       })
@@ -610,6 +612,7 @@ async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
           start_date: new Date(invoice.period_start * 1000).toISOString(),
           end_date: new Date(invoice.period_end * 1000).toISOString(),
           usage_count: 0, // Reset usage counter on successful payment,
+          personalized_usage_count: 0,
           plan_id: plan.id,
           stripe_subscription_id: invoice.subscription as string, // Ensure this is set correctly
         })
@@ -809,6 +812,7 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
             subscription.current_period_end * 1000
           ).toISOString(),
           usage_count: 0, // Reset usage counter for the new subscription
+          personalized_usage_count: 0,
         },
         {
           onConflict: "profile_id", // This matches the constraint
@@ -1082,6 +1086,7 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
           status: "active",
           end_date: null,
           usage_count: 0,
+          personalized_usage_count: 0,
         })
         .eq("profile_id", subscriptionData.profile_id);
 
@@ -1199,6 +1204,7 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
           plan_id: plan.id,
           status: subscription.status,
           usage_count: 0, // Reset usage counter on new/updated subscription
+          personalized_usage_count: 0,
           start_date: new Date(
             subscription.current_period_start * 1000
           ).toISOString(),
@@ -0,0 +1,229 @@
+import { NextResponse } from "next/server";
+import { fetchChannelFeedById } from "@/lib/youtube-feed";
+import {
+  checkIfChannelIsLinked,
+  getSubscriptionUsage,
+  registerVideo,
+  supabaseServicePublic,
+} from "@/lib/supabase";
+import { internalFetch } from "@/lib/utils";
+import { getSessionProfileId } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+import { BackfillPreview } from "@/lib/types";
+
+const MAX_BACKFILL_VIDEOS = 10;
+
+async function buildBackfillPreview(
+  profileId: string,
+  channelId: string,
+  count: number
+): Promise<BackfillPreview> {
+  const { videos } = await fetchChannelFeedById(channelId);
+  const latestVideos = videos.slice(0, count);
+  const videoIds = latestVideos.map((video) => video.videoId);
+
+  // Videos this profile already got an email for are never sent twice
+  const { data: existingNotifications } = await supabaseServicePublic
+    .from("notification_emails")
+    .select("video_id")
+    .eq("profile_id", profileId)
+    .in("video_id", videoIds);
+  const notifiedIds = new Set(
+    existingNotifications?.map((n) => n.video_id) || []
+  );
+
+  // Videos with a stored summary in the subscriber's language are reused
+  // without new AI work. Without a preference that is the captions' one.
+  const { data: profile } = await supabaseServicePublic
+    .from("profiles")
+    .select("summary_language")
+    .eq("id", profileId)
+    .single();
+  const { data: captions } = await supabaseServicePublic
+    .from("video_captions")
+    .select("video_id, language")
+    .in("video_id", videoIds);
+  const captionLanguages = new Map(
+    captions?.map((c) => [c.video_id, c.language]) || []
+  );
+  const { data: summarized } = await supabaseServicePublic
+    .from("video_ai_data")
+    .select("video_id, language")
+    .in("video_id", videoIds);
+  const summarizedIds = new Set(
+    summarized
+      ?.filter(
+        (s) =>
+          s.language ===
+          (profile?.summary_language ?? captionLanguages.get(s.video_id))
+      )
+      .map((s) => s.video_id) || []
+  );
+
+  const usage = await getSubscriptionUsage(profileId);
+  const remainingQuota = usage
+    ? Math.max(0, usage.monthlyLimit - usage.currentUsage)
+    : 0;
+
+  let billableCount = 0;
+  const previewVideos = latestVideos.map((video) => {
+    const alreadySent = notifiedIds.has(video.videoId);
+    const willSend = !alreadySent && billableCount < remainingQuota;
+    if (willSend) billableCount++;
+
+    return {
+      ...video,
+      alreadySent,
+      hasSummary: summarizedIds.has(video.videoId),
+      willSend,
+    };
+  });
+
+  return {
+    videos: previewVideos,
+    remainingQuota,
+    billableCount,
+  };
+}
+
+/**
+ * @param profileId - The signed-in caller, never taken from the request
+ */
+async function parseBackfillRequest(
+  profileId: string | null,
+  params: {
+    channelId: string | null;
+    count: string | number | null;
+  }
+) {
+  const { channelId } = params;
+  const count = Math.min(
+    MAX_BACKFILL_VIDEOS,
+    Math.max(0, parseInt(String(params.count ?? ""), 10) || 0)
+  );
+
+  if (!profileId) {
+    return { error: "Unauthorized", status: 401 } as const;
+  }
+
+  if (!channelId || count === 0) {
+    return {
+      error: "channelId and a positive count are required",
+    } as const;
+  }
+
+  if (!(await checkIfChannelIsLinked(profileId, channelId))) {
+    return { error: "Channel is not linked to this profile" } as const;
+  }
+
+  return { channelId, profileId, count } as const;
+}
+
+// Preview which of the latest videos would be sent and what they cost
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const parsed = await parseBackfillRequest(
+      await getSessionProfileId(request),
+      {
+        channelId: searchParams.get("channelId"),
+        count: searchParams.get("count"),
+      }
+    );
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: "status" in parsed ? parsed.status : 400 }
+      );
+    }
+
+    const preview = await buildBackfillPreview(
+      parsed.profileId,
+      parsed.channelId,
+      parsed.count
+    );
+    return NextResponse.json({ success: true, preview });
+  } catch (error) {
+    logger.error("💥 Error building backfill preview", {
+      prefix: "Backfill",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    return NextResponse.json(
+      { success: false, error: "Failed to load recent videos" },
+      { status: 500 }
+    );
+  }
+}
+
+// Enqueue the previewed videos for the requesting profile only
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = await parseBackfillRequest(
+      await getSessionProfileId(request),
+      body
+    );
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: "status" in parsed ? parsed.status : 400 }
+      );
+    }
+
+    const preview = await buildBackfillPreview(
+      parsed.profileId,
+      parsed.channelId,
+      parsed.count
+    );
+
+    let queued = 0;
+    for (const video of preview.videos.filter((v) => v.willSend)) {
+      const registration = await registerVideo(video);
+      if (registration.deletedAt) continue;
+
+      const queueResponse = await internalFetch("/api/youtube/queue", {
+        method: "POST",
+        body: JSON.stringify({
+          videoId: video.videoId,
+          channelId: video.channelId,
+          title: video.title,
+          authorName: video.authorName,
+          published: video.published,
+          updated: video.updated,
+          targetProfileId: parsed.profileId,
+        }),
+      });
+
+      if (!queueResponse.ok) {
+        throw new Error(`Failed to queue video ${video.videoId}`);
+      }
+      queued++;
+    }
+
+    logger.info("✅ Backfill queued", {
+      prefix: "Backfill",
+      data: {
+        channelId: parsed.channelId,
+        profileId: parsed.profileId,
+        requested: parsed.count,
+        queued,
+      },
+    });
+
+    return NextResponse.json({ success: true, queued });
+  } catch (error) {
+    logger.error("💥 Error queueing backfill", {
+      prefix: "Backfill",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    return NextResponse.json(
+      { success: false, error: "Failed to queue recent videos" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
-import xml2js from "xml2js";
 import puppeteer from "puppeteer-core";
 import chromium from "@sparticuz/chromium";
+import { parseChannelFeed } from "@/lib/youtube-feed";
 import { logger } from "@/lib/logger";
 
 const getBrowser = async () => {
@@ -354,51 +354,12 @@ async function fetchChannelFeed(channelName: string) {
       throw new Error(`Failed to fetch feed: ${response.status}`);
     }
 
-    const data = await response.text();
-    const parser = new xml2js.Parser();
-    const result = await parser.parseStringPromise(data);
-
-    // Get the first entry (latest video)
-    const latestEntry = result.feed.entry?.[1];
-
-    const author = result.feed.author[0].name[0];
-    const uri = result.feed.author[0].uri[0];
-    const title = result.feed.title[0];
-
-    // Get thumbnail from media:group/media:thumbnail
-    const thumbnail =
-      latestEntry?.["media:group"]?.[0]?.["media:thumbnail"]?.[0]?.$?.url ||
-      null;
-
-    // Get view count from media:group/media:community/media:statistics
-    const viewCount =
-      latestEntry?.["media:group"]?.[0]?.["media:community"]?.[0]?.[
-        "media:statistics"
-      ]?.[0]?.$?.views || "0";
-
-    const lastVideoId = latestEntry?.["yt:videoId"]?.[0];
-    const lastVideoDate = latestEntry?.published?.[0];
-
-    // "https://www.youtube.com/channel/UCW5wxEjGHWNyatgZe-PU_tA"
-    // This is uri and the id is the last part of the url which is UCW5wxEjGHWNyatgZe-PU_tA
-    const channelIdOnly = uri.split("/").pop();
+    const { channel } = await parseChannelFeed(await response.text());
     logger.info("🆔 Channel id is fetched from xml feed", {
       prefix: "YouTube Feed",
-      data: { channelId: channelIdOnly },
+      data: { channelId: channel.channelId },
     });
-    return {
-      success: true,
-      data: {
-        author,
-        uri,
-        title,
-        thumbnail,
-        viewCount: parseInt(viewCount, 10),
-        lastVideoId,
-        lastVideoDate,
-        channelId: channelIdOnly,
-      },
-    };
+    return { success: true, data: channel };
   } catch (error) {
     logger.error("❌ XML feed failed with error:", {
       prefix: "YouTube Feed",
@@ -1,9 +1,27 @@
 import axios from "axios";
 import { NextResponse } from "next/server";
 import { logger } from "@/lib/logger";
+import { generateHubSecret } from "@/lib/pubsub-signature";
+import { getSessionProfileId, isInternalRequest } from "@/lib/api-auth";
+import {
+  checkIfChannelIsLinked,
+  getChannelHubSecret,
+  isChannelFollowed,
+  markHubSubscriptionRequested,
+  storeChannelHubSecret,
+} from "@/lib/supabase";
+import { buildUrl } from "@/lib/utils";
 
 const PUBSUBHUBBUB_HUB_URL = "https://pubsubhubbub.appspot.com/subscribe";
 
+/**
+ * The hub only ever calls our own webhook. `PUBSUB_CALLBACK_URL` points it
+ * at a tunnel in local development.
+ */
+function getCallbackUrl(): string {
+  return process.env.PUBSUB_CALLBACK_URL || buildUrl("/api/youtube/webhook");
+}
+
 export async function POST(request: Request) {
   const startTime = performance.now();
   logger.info("🚀 Starting PubSubHubbub subscription request", {
@@ -12,23 +30,21 @@ export async function POST(request: Request) {
 
   try {
     const body = await request.json();
-    const { callbackUrl, topicUrl, mode = "subscribe" } = body;
+    const { channelId, mode = "subscribe" } = body;
     logger.info("📝 Request body:", {
       prefix: "PubSubHubbub",
       data: {
-        callbackUrl,
-        topicUrl,
+        channelId,
         mode,
         verifyToken: body.verifyToken ? "✓" : "✗",
-        secret: body.secret ? "✓" : "✗",
         leaseSeconds: body.leaseSeconds,
       },
     });
 
-    if (!callbackUrl || !topicUrl) {
+    if (typeof channelId !== "string" || !/^[\w-]+$/.test(channelId)) {
       logger.warn("⚠️ Missing required parameters", { prefix: "PubSubHubbub" });
       return NextResponse.json(
-        { error: "Callback URL and Topic URL are required" },
+        { error: "A valid channel ID is required" },
         { status: 400 }
       );
     }
@@ -45,6 +61,34 @@ export async function POST(request: Request) {
       );
     }
 
+    // Besides the app's own server, users may subscribe channels they
+    // follow and unsubscribe channels nobody follows anymore
+    if (!isInternalRequest(request)) {
+      const profileId = await getSessionProfileId(request);
+      if (
+        !profileId ||
+        (mode === "subscribe" &&
+          !(await checkIfChannelIsLinked(profileId, channelId)))
+      ) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      if (mode === "unsubscribe" && (await isChannelFollowed(channelId))) {
+        logger.info("ℹ️ Channel still followed, keeping the subscription", {
+          prefix: "PubSubHubbub",
+          data: { channelId },
+        });
+        return NextResponse.json({
+          success: true,
+          message: "Channel is still followed, subscription kept",
+          callbackUrl: getCallbackUrl(),
+        });
+      }
+    }
+
+    const callbackUrl = getCallbackUrl();
+    const topicUrl = `https://www.youtube.com/xml/feeds/videos.xml?channel_id=${channelId}`;
+
     // Prepare form data
     const formData = new URLSearchParams();
     formData.append("hub.callback", callbackUrl);
@@ -59,9 +103,18 @@ export async function POST(request: Request) {
         prefix: "PubSubHubbub",
       });
     }
-    if (body.secret) {
-      formData.append("hub.secret", body.secret);
-      logger.info("🔒 Added secret to request", { prefix: "PubSubHubbub" });
+    if (mode === "subscribe") {
+      // Reuse the channel's secret so notifications in flight stay
+      // verifiable. A secret from the caller is never used, it would let
+      // them sign notifications themselves.
+      const secret =
+        (await getChannelHubSecret(channelId)) ?? generateHubSecret();
+      await storeChannelHubSecret(channelId, secret);
+      formData.append("hub.secret", secret);
+      logger.info("🔒 Added secret to request", {
+        prefix: "PubSubHubbub",
+        data: { channelId },
+      });
     }
     if (body.leaseSeconds) {
       formData.append("hub.lease_seconds", body.leaseSeconds.toString());
@@ -71,6 +124,11 @@ export async function POST(request: Request) {
       });
     }
 
+    // Mark before sending, the hub may call back before it answers us
+    if (mode === "subscribe") {
+      await markHubSubscriptionRequested(channelId);
+    }
+
     logger.info("📤 Sending request to PubSubHubbub hub...", {
       prefix: "PubSubHubbub",
     });
@@ -106,6 +164,7 @@ export async function POST(request: Request) {
     return NextResponse.json({
       success: true,
       message: `${mode} request submitted successfully`,
+      callbackUrl,
     });
   } catch (error) {
     const endTime = performance.now();
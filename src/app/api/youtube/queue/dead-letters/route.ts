@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import {
+  listDeadLetters,
+  purgeDeadLetters,
+  replayDeadLetters,
+} from "@/lib/dead-letter-queue";
+import { getJobQueue } from "@/lib/job-queue";
+import { PIPELINE_QUEUES } from "@/lib/pipeline-stages";
+import { YouTubeQueueMessage } from "@/lib/types";
+import { getAdminProfileId } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+
+type PipelineStage = keyof typeof PIPELINE_QUEUES;
+
+// Resolves the ?stage= parameter to a queue, the ingest queue by default
+function getStageQueue(request: Request): string | null {
+  const stage = new URL(request.url).searchParams.get("stage") ?? "ingest";
+  return stage in PIPELINE_QUEUES
+    ? PIPELINE_QUEUES[stage as PipelineStage]
+    : null;
+}
+
+function unknownStageResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `stage must be one of ${Object.keys(PIPELINE_QUEUES).join(", ")}`,
+    },
+    { status: 400 }
+  );
+}
+
+// Inspect messages that exhausted their retries
+export async function GET(request: Request) {
+  if (!(await getAdminProfileId(request))) {
+    return NextResponse.json(
+      { success: false, error: "Forbidden" },
+      { status: 403 }
+    );
+  }
+
+  const queueName = getStageQueue(request);
+  if (!queueName) return unknownStageResponse();
+
+  try {
+    const deadLetters = await listDeadLetters<YouTubeQueueMessage>(
+      getJobQueue(),
+      queueName
+    );
+    return NextResponse.json({ success: true, deadLetters });
+  } catch (error) {
+    logger.error("💥 Error listing dead letters", {
+      prefix: "Dead Letters",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    return NextResponse.json(
+      { success: false, error: "Failed to list dead letters" },
+      { status: 500 }
+    );
+  }
+}
+
+// Replay or purge dead letters, all of them unless msgIds is given
+export async function POST(request: Request) {
+  if (!(await getAdminProfileId(request))) {
+    return NextResponse.json(
+      { success: false, error: "Forbidden" },
+      { status: 403 }
+    );
+  }
+
+  const queueName = getStageQueue(request);
+  if (!queueName) return unknownStageResponse();
+
+  try {
+    const { action, msgIds } = (await request.json()) as {
+      action?: "replay" | "purge";
+      msgIds?: number[];
+    };
+
+    if (action === "replay") {
+      const replayed = await replayDeadLetters(
+        getJobQueue(),
+        queueName,
+        msgIds
+      );
+      return NextResponse.json({ success: true, replayed });
+    }
+
+    if (action === "purge") {
+      const purged = await purgeDeadLetters(getJobQueue(), queueName, msgIds);
+      return NextResponse.json({ success: true, purged });
+    }
+
+    return NextResponse.json(
+      { success: false, error: "action must be replay or purge" },
+      { status: 400 }
+    );
+  } catch (error) {
+    logger.error("💥 Error handling dead letters", {
+      prefix: "Dead Letters",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    return NextResponse.json(
+      { success: false, error: "Failed to handle dead letters" },
+      { status: 500 }
+    );
+  }
+}
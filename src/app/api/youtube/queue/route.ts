@@ -1,39 +1,41 @@
 import { NextResponse } from "next/server";
 import { YouTubeQueueMessage } from "@/lib/types";
-import { supabaseServicePGMQPublic } from "@/lib/supabase";
+import { getJobQueue } from "@/lib/job-queue";
+import { getAdminProfileId, isInternalRequest } from "@/lib/api-auth";
 import { logger } from "@/lib/logger";
 
 // Constants
 const QUEUE_NAME = "youtube_data_queue";
 
-// 🚨 CRITICAL WARNING!!! DO NOT DELETE THIS COMMENT 🚨
-// ISSUE: Queue works initially but then STOPS with the following error:
-/*
-permission denied for sequence q_youtube_data_queue_msg_id_seq
-{
-  code: '42501',
-  details: null,
-  hint: null,
-  message: 'permission denied for sequence q_youtube_data_queue_msg_id_seq'
+/**
+ * Messages skip the webhook's signature check, so only the app's own
+ * server and admins may queue or take them
+ */
+async function isAllowed(request: Request): Promise<boolean> {
+  return isInternalRequest(request) || !!(await getAdminProfileId(request));
 }
-*/
-// FIX: Run the following command in the Supabase console to resolve it:
-// GRANT USAGE, SELECT, UPDATE ON ALL SEQUENCES IN SCHEMA pgmq TO service_role;
 
-// Initialize Supabase client
-const supabase = supabaseServicePGMQPublic(
-  process.env.NEXT_PUBLIC_SUPABASE_URL as string,
-  process.env.SUPABASE_SERVICE_ROLE_KEY as string
-);
+function forbiddenResponse() {
+  return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+}
 
 export async function POST(request: Request) {
+  if (!(await isAllowed(request))) return forbiddenResponse();
+
   const startTime = performance.now();
   logger.info("🔔 Starting YouTube data queue processing", { prefix: "Queue" });
 
   try {
     const body = await request.json();
-    const { channelId, videoId, title, authorName, published, updated } =
-      body as YouTubeQueueMessage;
+    const {
+      channelId,
+      videoId,
+      title,
+      authorName,
+      published,
+      updated,
+      targetProfileId,
+    } = body as YouTubeQueueMessage;
 
     logger.info("📝 Queue message:", {
       prefix: "Queue",
@@ -44,31 +46,22 @@ export async function POST(request: Request) {
         authorName,
         published,
         updated,
+        targetProfileId,
       },
     });
 
     // Send message to queue
-    const { data, error } = await supabase.rpc("send", {
-      queue_name: QUEUE_NAME,
-      message: {
-        channelId,
-        videoId,
-        title,
-        authorName,
-        published,
-        updated,
-        timestamp: new Date().toISOString(),
-      },
+    const messageId = await getJobQueue().send(QUEUE_NAME, {
+      channelId,
+      videoId,
+      title,
+      authorName,
+      published,
+      updated,
+      ...(targetProfileId && { targetProfileId }),
+      timestamp: new Date().toISOString(),
     });
 
-    if (error) {
-      logger.error("❌ Queue error:", {
-        prefix: "Queue",
-        data: { error: error.message },
-      });
-      throw error;
-    }
-
     const endTime = performance.now();
     logger.info("✅ Message sent to queue successfully", { prefix: "Queue" });
     logger.info(
@@ -82,7 +75,7 @@ export async function POST(request: Request) {
     return NextResponse.json({
       success: true,
       message: "Data queued for processing",
-      messageId: data,
+      messageId,
     });
   } catch (error) {
     const endTime = performance.now();
@@ -104,24 +97,20 @@ export async function POST(request: Request) {
   }
 }
 
-export async function GET() {
+export async function GET(request: Request) {
+  if (!(await isAllowed(request))) return forbiddenResponse();
+
   const startTime = performance.now();
   logger.info("🔍 Starting queue message retrieval", { prefix: "Queue" });
 
   try {
-    // Read message from queue
-    const { data, error } = await supabase.rpc("pop", {
-      queue_name: QUEUE_NAME,
-      msgs_per_batch: 1,
+    // Read and remove one message from the queue
+    const queue = getJobQueue();
+    const [job] = await queue.read<YouTubeQueueMessage>(QUEUE_NAME, {
+      limit: 1,
+      visibilityTimeoutSeconds: 30,
     });
-
-    if (error) {
-      logger.error("❌ Queue error:", {
-        prefix: "Queue",
-        data: { error: error.message },
-      });
-      throw error;
-    }
+    if (job) await queue.ack(QUEUE_NAME, job.id);
 
     const endTime = performance.now();
     logger.info("✅ Queue message retrieved successfully", { prefix: "Queue" });
@@ -133,14 +122,14 @@ export async function GET() {
       }
     );
 
-    if (!data || data.length === 0) {
+    if (!job) {
       return NextResponse.json({
         success: true,
         message: "No messages in queue",
       });
     }
 
-    const message = data[0] as YouTubeQueueMessage;
+    const message = job.message;
     logger.info("📦 Retrieved message:", {
       prefix: "Queue",
       data: {
@@ -2,6 +2,51 @@ import xml2js from "xml2js";
 import { PubSubHubbubNotification } from "@/lib/types";
 import { logger } from "@/lib/logger";
 import { internalFetch } from "@/lib/utils";
+import { verifyHubSignature } from "@/lib/pubsub-signature";
+import {
+  cancelPendingNotifications,
+  clearHubLease,
+  getChannelHubSecret,
+  getHubSubscriptionState,
+  markHubSubscriptionDenied,
+  markVideoDeleted,
+  recordHubLease,
+  recordWebhookRejection,
+  registerVideo,
+  unregisterVideo,
+} from "@/lib/supabase";
+import { queueRetitleNotes } from "@/lib/notifications";
+import { WebhookRejectionReason } from "@/lib/types";
+
+/**
+ * Finds the channel ID in a video entry or a deleted-entry tombstone
+ * without parsing the XML, so the signature is checked before any of
+ * an untrusted body is parsed
+ */
+function getNotificationChannelId(rawBody: string): string | null {
+  const match =
+    rawBody.match(/<yt:channelId>\s*([\w-]+)\s*<\/yt:channelId>/) ??
+    rawBody.match(/youtube\.com\/channel\/([\w-]+)/);
+  return match?.[1] ?? null;
+}
+
+async function verifyNotification(
+  rawBody: string,
+  signatureHeader: string | null,
+  channelId: string | null
+): Promise<WebhookRejectionReason | null> {
+  if (!signatureHeader) {
+    return "missing_signature";
+  }
+
+  const secret = channelId ? await getChannelHubSecret(channelId) : null;
+  if (!secret) {
+    return "unknown_channel";
+  }
+
+  const result = verifyHubSignature(rawBody, signatureHeader, secret);
+  return result === "valid" ? null : "invalid_signature";
+}
 
 export async function GET(request: Request) {
   logger.info("🔔 Received hub verification request", {
@@ -15,6 +60,7 @@ export async function GET(request: Request) {
     data: {
       mode: searchParams.get("hub.mode"),
       topic: searchParams.get("hub.topic"),
+      leaseSeconds: searchParams.get("hub.lease_seconds"),
       challenge:
         "..." + (searchParams.get("hub.challenge")?.slice(-10) || "none"),
     },
@@ -24,6 +70,21 @@ export async function GET(request: Request) {
   const mode = searchParams.get("hub.mode");
   const topic = searchParams.get("hub.topic");
   const challenge = searchParams.get("hub.challenge");
+  const channelId =
+    topic && URL.canParse(topic)
+      ? new URL(topic).searchParams.get("channel_id")
+      : null;
+
+  // The hub reports refused subscriptions without a challenge
+  if (mode === "denied" && channelId) {
+    const reason = searchParams.get("hub.reason");
+    logger.warn("⛔ Subscription denied by hub", {
+      prefix: "YouTube Webhook",
+      data: { channelId, reason },
+    });
+    await markHubSubscriptionDenied(channelId, reason);
+    return new Response("OK", { status: 200 });
+  }
 
   if (!mode || !topic || !challenge) {
     logger.error("Missing required verification parameters", {
@@ -34,7 +95,54 @@ export async function GET(request: Request) {
 
   // Verify the subscription request
   if (mode === "subscribe" || mode === "unsubscribe") {
-    logger.info("✅ Verification successful", { prefix: "YouTube Webhook" });
+    const subscription = channelId
+      ? await getHubSubscriptionState(channelId)
+      : null;
+    const state = subscription?.state ?? null;
+
+    // Only confirm subscriptions we actually requested for a known channel.
+    // Channels subscribed before their state was tracked have none yet.
+    const isExpected =
+      subscription !== null &&
+      (mode === "unsubscribe" ||
+        state === null ||
+        state === "requested" ||
+        state === "verified" ||
+        state === "expired");
+    if (!channelId || !isExpected) {
+      logger.warn("🚫 Verification for unexpected topic", {
+        prefix: "YouTube Webhook",
+        data: { mode, topic, state },
+      });
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const leaseSeconds = parseInt(searchParams.get("hub.lease_seconds") || "");
+
+    // Record the lease so renewals are scheduled relative to its expiry
+    try {
+      if (mode === "subscribe") {
+        await recordHubLease(
+          channelId,
+          Number.isNaN(leaseSeconds) ? null : leaseSeconds
+        );
+      } else {
+        await clearHubLease(channelId);
+      }
+    } catch (error) {
+      logger.error("❌ Failed to record lease", {
+        prefix: "YouTube Webhook",
+        data: {
+          channelId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      });
+    }
+
+    logger.info("✅ Verification successful", {
+      prefix: "YouTube Webhook",
+      data: { channelId, mode, previousState: state, leaseSeconds },
+    });
     return new Response(challenge, { status: 200 });
   }
 
@@ -65,13 +173,20 @@ export async function POST(request: Request) {
     }
     */
 
-    // detect deleted-entry
-    if (rawBody.includes("deleted-entry")) {
-      logger.info("🔴 Deleted entry detected", {
+    // Verify the payload was signed by the hub with the channel's secret
+    const notificationChannelId = getNotificationChannelId(rawBody);
+    const rejection = await verifyNotification(
+      rawBody,
+      request.headers.get("x-hub-signature"),
+      notificationChannelId
+    );
+    if (rejection) {
+      await recordWebhookRejection(notificationChannelId, rejection);
+      logger.warn("🚫 Rejected unverified notification", {
         prefix: "YouTube Webhook",
-        data: { rawBody },
+        data: { channelId: notificationChannelId, reason: rejection },
       });
-      return new Response("OK", { status: 200 });
+      return new Response("Forbidden", { status: 403 });
     }
 
     // Parse XML content
@@ -80,6 +195,36 @@ export async function POST(request: Request) {
       rawBody
     )) as PubSubHubbubNotification;
 
+    // detect deleted-entry
+    const deletedEntry = result.feed?.["at:deleted-entry"]?.[0];
+    if (deletedEntry) {
+      // ref looks like "yt:video:POOwHEPk3d4"
+      const deletedVideoId = deletedEntry.$.ref.split(":").pop();
+      const deletedAt = deletedEntry.$.when || new Date().toISOString();
+      logger.info("🔴 Deleted entry detected", {
+        prefix: "YouTube Webhook",
+        data: {
+          videoId: deletedVideoId,
+          channelId: notificationChannelId,
+          deletedAt,
+        },
+      });
+
+      if (!deletedVideoId) {
+        throw new Error("Invalid deleted-entry: Missing video reference");
+      }
+
+      // Queued messages for this video are dropped by the queue worker
+      await markVideoDeleted(deletedVideoId, notificationChannelId, deletedAt);
+      const cancelled = await cancelPendingNotifications(deletedVideoId);
+      logger.info("🧹 Retracted work for deleted video", {
+        prefix: "YouTube Webhook",
+        data: { videoId: deletedVideoId, cancelledNotifications: cancelled },
+      });
+
+      return new Response("OK", { status: 200 });
+    }
+
     if (!result.feed?.entry?.[0]) {
       throw new Error("Invalid feed format: No entries found");
     }
@@ -104,6 +249,46 @@ export async function POST(request: Request) {
       },
     });
 
+    const registration = await registerVideo({
+      videoId,
+      channelId,
+      title,
+      published,
+      updated,
+    });
+
+    if (registration.deletedAt) {
+      logger.info("🗑️ Ignoring notification for deleted video", {
+        prefix: "YouTube Webhook",
+        data: { videoId, deletedAt: registration.deletedAt },
+      });
+      return new Response("OK", { status: 200 });
+    }
+
+    // Re-sent entries are edits: metadata is already updated, no captions or AI work
+    if (!registration.isNew) {
+      const isRetitled = registration.previousTitle !== title;
+      logger.info("✏️ Video update detected", {
+        prefix: "YouTube Webhook",
+        data: {
+          videoId,
+          isRetitled,
+          previousTitle: registration.previousTitle,
+          title,
+        },
+      });
+
+      if (isRetitled) {
+        await queueRetitleNotes(
+          videoId,
+          channelId,
+          registration.previousTitle,
+          title
+        );
+      }
+      return new Response("OK", { status: 200 });
+    }
+
     logger.info("🎯 Queueing video data for processing", {
       prefix: "YouTube Webhook",
     });
@@ -125,6 +310,8 @@ export async function POST(request: Request) {
     });
 
     if (!queueResponse.ok) {
+      // Let the hub's retry be treated as a new upload again
+      await unregisterVideo(videoId);
       const error = await queueResponse.json();
       throw new Error(
         `Queue error: ${error.details || "Failed to queue message"}`
@@ -0,0 +1,224 @@
+"use client";
+
+import * as React from "react";
+import { Pause, Play } from "lucide-react";
+import { AppLayout } from "@/components/ui/app-layout";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useProfile } from "@/hooks/use-profile";
+import { WorkerStatus } from "@/lib/types";
+
+const REFRESH_INTERVAL = 10000;
+
+function formatAge(timestamp: string) {
+  const seconds = Math.round(
+    (Date.now() - new Date(timestamp).getTime()) / 1000
+  );
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m ago`;
+  return `${Math.round(seconds / 3600)}h ago`;
+}
+
+export default function WorkersPage() {
+  const { profile, isLoading: profileLoading } = useProfile();
+  const [workers, setWorkers] = React.useState<WorkerStatus[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [updatingWorker, setUpdatingWorker] = React.useState<string | null>(
+    null
+  );
+  const { toast } = useToast();
+
+  const breadcrumbs = [{ label: "Workers", active: true }];
+
+  const fetchWorkers = React.useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/workers", {
+        credentials: "include", // Include cookies for auth
+      });
+      if (!response.ok) throw new Error("Failed to fetch worker status");
+
+      const { workers } = await response.json();
+      setWorkers(workers);
+    } catch (error) {
+      console.error("Error fetching workers:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (!profile?.is_admin) return;
+
+    fetchWorkers();
+    const interval = setInterval(fetchWorkers, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [profile?.is_admin, fetchWorkers]);
+
+  const togglePaused = async (worker: WorkerStatus) => {
+    try {
+      setUpdatingWorker(worker.worker_name);
+      const response = await fetch("/api/admin/workers", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          workerName: worker.worker_name,
+          paused: !worker.paused,
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to update worker");
+
+      toast({
+        title: worker.paused ? "Worker resumed" : "Worker paused",
+        description: `${worker.worker_name} picks this up on its next heartbeat.`,
+      });
+      await fetchWorkers();
+    } catch (error) {
+      console.error("Error updating worker:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update worker. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingWorker(null);
+    }
+  };
+
+  if (profileLoading || (profile?.is_admin && isLoading)) {
+    return (
+      <AppLayout breadcrumbs={breadcrumbs}>
+        <div className="h-screen flex items-center justify-center">
+          <div className="h-8 w-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (!profile?.is_admin) {
+    return (
+      <AppLayout breadcrumbs={breadcrumbs}>
+        <div className="container py-8">
+          <p className="text-muted-foreground">
+            You don&apos;t have access to this page.
+          </p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout breadcrumbs={breadcrumbs}>
+      <div className="container py-8">
+        <div className="w-full max-w-5xl space-y-6">
+          <h1 className="text-2xl font-bold">Workers</h1>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Worker Status</CardTitle>
+              <CardDescription>
+                Heartbeats from every worker instance, refreshed every{" "}
+                {REFRESH_INTERVAL / 1000} seconds
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {workers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No worker has reported a heartbeat yet.
+                </p>
+              ) : (
+                <div className="overflow-hidden rounded-md border">
+                  <table className="w-full">
+                    <thead className="bg-muted/20">
+                      <tr className="text-left text-sm text-muted-foreground">
+                        <th className="p-3 font-medium">Worker</th>
+                        <th className="p-3 font-medium">Last Loop</th>
+                        <th className="p-3 font-medium text-right">
+                          Processed
+                        </th>
+                        <th className="p-3 font-medium text-right">Errors</th>
+                        <th className="p-3 font-medium">Backlog</th>
+                        <th className="p-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {workers.map((worker) => (
+                        <tr
+                          key={`${worker.worker_name}-${worker.instance_id}`}
+                          className="text-sm"
+                        >
+                          <td className="p-3">
+                            <div className="flex items-center gap-2 font-medium">
+                              {worker.worker_name}
+                              {worker.stale && (
+                                <Badge variant="destructive">Stale</Badge>
+                              )}
+                              {worker.paused && (
+                                <Badge variant="secondary">Paused</Badge>
+                              )}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {worker.instance_id}
+                            </div>
+                          </td>
+                          <td className="p-3">
+                            {formatAge(worker.last_loop_at)}
+                          </td>
+                          <td className="p-3 text-right">
+                            {worker.processed_count}
+                          </td>
+                          <td className="p-3 text-right">
+                            {worker.error_count}
+                          </td>
+                          <td className="p-3 text-xs text-muted-foreground">
+                            {Object.entries(worker.backlog).map(
+                              ([name, depth]) => (
+                                <div key={name}>
+                                  {name}: {depth}
+                                </div>
+                              )
+                            )}
+                          </td>
+                          <td className="p-3 text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={updatingWorker === worker.worker_name}
+                              onClick={() => togglePaused(worker)}
+                            >
+                              {worker.paused ? (
+                                <>
+                                  <Play className="mr-1 h-4 w-4" />
+                                  Resume
+                                </>
+                              ) : (
+                                <>
+                                  <Pause className="mr-1 h-4 w-4" />
+                                  Pause
+                                </>
+                              )}
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
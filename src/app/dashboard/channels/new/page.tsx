@@ -4,6 +4,14 @@ import { AppLayout } from "@/components/ui/app-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Youtube } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
@@ -16,7 +24,7 @@ import {
   updateChannelSubscription,
 } from "@/lib/supabase";
 import { useProfile } from "@/hooks/use-profile";
-import { ChannelFromXmlFeed } from "@/lib/types";
+import { BackfillPreview, ChannelFromXmlFeed } from "@/lib/types";
 import { managePubSubHubbub } from "@/lib/pubsub";
 import { logger } from "@/lib/logger";
 
@@ -25,22 +33,28 @@ async function subscribeToPubSubHubbub(channelId: string): Promise<string> {
     prefix: "PubSubHubbub",
     data: { channelId },
   });
-  const ngrokUrl =
-    "https://b4ca-2a02-4e0-2d14-76e-145b-f042-77bc-70bc.ngrok-free.app";
   const callbackUrl = await managePubSubHubbub({
     channelId,
     mode: "subscribe",
-    ngrokUrl,
   });
   return callbackUrl;
 }
 
+const BACKFILL_OPTIONS = [0, 3, 5, 10];
+
 export default function AddChannelPage() {
   const { profile, isLoading: isLoadingProfile } = useProfile();
   const [channelInput, setChannelInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentChannels, setCurrentChannels] = useState<number | null>(null);
+  const [addedChannel, setAddedChannel] = useState<ChannelFromXmlFeed | null>(
+    null
+  );
+  const [backfillCount, setBackfillCount] = useState(0);
+  const [backfillPreview, setBackfillPreview] =
+    useState<BackfillPreview | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const router = useRouter();
 
   // Update channel limit check
@@ -70,6 +84,46 @@ export default function AddChannelPage() {
     }
   }, [profile, isLoadingProfile]);
 
+  // Preview what a backfill would send whenever the selection changes
+  useEffect(() => {
+    async function loadBackfillPreview() {
+      if (!profile || !addedChannel || backfillCount === 0) {
+        setBackfillPreview(null);
+        return;
+      }
+
+      setIsLoadingPreview(true);
+      try {
+        const params = new URLSearchParams({
+          channelId: addedChannel.channelId,
+          count: String(backfillCount),
+        });
+        const response = await fetch(
+          `/api/youtube/channel/backfill?${params}`,
+          {
+            credentials: "include", // The route reads the profile from the session
+          }
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load recent videos");
+        }
+        setBackfillPreview(data.preview);
+      } catch (err) {
+        logger.error("Failed to load backfill preview", {
+          prefix: "Backfill",
+          data: { error: err instanceof Error ? err.message : "Unknown error" },
+        });
+        setError("Failed to load recent videos");
+        setBackfillPreview(null);
+      } finally {
+        setIsLoadingPreview(false);
+      }
+    }
+
+    loadBackfillPreview();
+  }, [profile, addedChannel, backfillCount]);
+
   // Logging after the hook
   logger.info("Channel limit", {
     prefix: "Channels",
@@ -81,8 +135,9 @@ export default function AddChannelPage() {
     data: { currentChannelCount },
   });
 
-  // Update plan limit check
+  // Update plan limit check, the channel just added doesn't lock the page
   const hasReachedLimit =
+    !addedChannel &&
     currentChannelCount != null &&
     currentChannelCount >= (profile?.subscription?.plans.channel_limit ?? 0);
 
@@ -258,8 +313,8 @@ export default function AddChannelPage() {
           // 12. Start background update
           await startChannelInfoUpdate(channel.channelId, profile.id);
 
-          // 13. Navigate only after all operations are complete
-          router.push("/dashboard/channels");
+          // 13. Offer to summarize recent uploads before leaving
+          setAddedChannel(channel);
         } catch (err) {
           // If PubSubHubbub subscription fails, we should:
           // 1. Log the error
@@ -324,6 +379,45 @@ export default function AddChannelPage() {
     }
   };
 
+  const handleBackfill = async () => {
+    if (!profile || !addedChannel || !backfillPreview?.billableCount) {
+      router.push("/dashboard/channels");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/youtube/channel/backfill", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          channelId: addedChannel.channelId,
+          count: backfillCount,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to queue recent videos");
+      }
+
+      router.push("/dashboard/channels");
+    } catch (err) {
+      logger.error("Error queueing backfill", {
+        prefix: "Backfill",
+        data: { error: err instanceof Error ? err.message : "Unknown error" },
+      });
+      setError(
+        "Failed to queue summaries of recent videos. Please try again or skip."
+      );
+      setIsLoading(false);
+    }
+  };
+
   async function isValidYouTubeUrl(url: string): Promise<boolean> {
     try {
       const parsedUrl = new URL(url);
@@ -393,7 +487,93 @@ export default function AddChannelPage() {
             </p>
           </CardHeader>
           <CardContent>
-            {hasReachedLimit ? (
+            {addedChannel ? (
+              <div className="space-y-4">
+                <p className="text-sm">
+                  {addedChannel.title} was added. New uploads will be summarized
+                  automatically.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="backfill">
+                    Also send me summaries of recent videos
+                  </Label>
+                  <Select
+                    value={String(backfillCount)}
+                    onValueChange={(value) => setBackfillCount(Number(value))}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="backfill" className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BACKFILL_OPTIONS.map((option) => (
+                        <SelectItem key={option} value={String(option)}>
+                          {option === 0
+                            ? "No, only new uploads"
+                            : `Last ${option} videos`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {isLoadingPreview && (
+                  <p className="text-sm text-muted-foreground">
+                    Loading recent videos...
+                  </p>
+                )}
+                {backfillPreview && !isLoadingPreview && (
+                  <div className="space-y-2 text-sm">
+                    <ul className="space-y-1">
+                      {backfillPreview.videos.map((video) => (
+                        <li
+                          key={video.videoId}
+                          className={
+                            video.willSend ? "" : "text-muted-foreground"
+                          }
+                        >
+                          {video.title}
+                          {video.alreadySent && " (already sent)"}
+                          {!video.alreadySent &&
+                            !video.willSend &&
+                            " (over your monthly limit)"}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-muted-foreground">
+                      This uses {backfillPreview.billableCount} of the{" "}
+                      {backfillPreview.remainingQuota} emails left on your plan
+                      this month.
+                    </p>
+                  </div>
+                )}
+                {error && (
+                  <p className="text-sm text-red-500 dark:text-red-400">
+                    {error}
+                  </p>
+                )}
+                <div className="flex justify-end gap-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => router.push("/dashboard/channels")}
+                    disabled={isLoading}
+                  >
+                    Skip
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={handleBackfill}
+                    disabled={
+                      isLoading ||
+                      isLoadingPreview ||
+                      !backfillPreview?.billableCount
+                    }
+                  >
+                    {isLoading ? "Sending..." : "Send Summaries"}
+                  </Button>
+                </div>
+              </div>
+            ) : hasReachedLimit ? (
               <div className="py-6">
                 <p className="text-muted-foreground mb-4">
                   You&apos;ve reached the limit of{" "}
@@ -3,7 +3,14 @@
 import { AppLayout } from "@/components/ui/app-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Trash2, Youtube, Users, Clock, Link as LinkIcon } from "lucide-react";
+import {
+  Trash2,
+  Youtube,
+  Users,
+  Clock,
+  Link as LinkIcon,
+  AlertTriangle,
+} from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 import { getRelativeTime } from "@/lib/utils";
@@ -26,19 +33,43 @@ import { useProfile } from "@/hooks/use-profile";
 import { managePubSubHubbub } from "@/lib/pubsub";
 import { logger } from "@/lib/logger";
 import { UsageBadge } from "@/components/usage-badge";
+import { VideoTypesDialog } from "@/components/video-types-dialog";
 import { useSubscriptionUsage } from "@/hooks/use-subscription-usage";
 
 async function unsubscribeFromPubSubHubbub(channelId: string): Promise<void> {
   logger.info("🔔 Unsubscribing from PubSubHubbub");
-  const ngrokUrl =
-    "https://b4ca-2a02-4e0-2d14-76e-145b-f042-77bc-70bc.ngrok-free.app";
   await managePubSubHubbub({
     channelId,
     mode: "unsubscribe",
-    ngrokUrl,
   });
 }
 
+// Explains why the hub is not pushing new videos for a channel, if it isn't
+function getWatchWarning(channel: ChannelListItem): string | null {
+  const isLeaseLapsed =
+    !!channel.leaseExpiresAt &&
+    new Date(channel.leaseExpiresAt).getTime() < Date.now();
+
+  if (channel.hubState === "expired" || isLeaseLapsed) {
+    return channel.leaseExpiresAt
+      ? `Notifications lapsed ${getRelativeTime(
+          channel.leaseExpiresAt
+        )}, awaiting re-verification`
+      : "Notifications lapsed, awaiting re-verification";
+  }
+
+  switch (channel.hubState) {
+    case "requested":
+      return "Awaiting hub verification";
+    case "denied":
+      return "Subscription denied by the hub";
+    case "unsubscribed":
+      return "Not subscribed, renewal pending";
+    default:
+      return null;
+  }
+}
+
 export default function ChannelsPage() {
   const { profile, isLoading: isLoadingProfile } = useProfile();
   const { usage, isLoading: isLoadingUsage } = useSubscriptionUsage(
@@ -95,6 +126,9 @@ export default function ChannelsPage() {
         throw new Error("Channel not found");
       }
 
+      await deleteProfileChannel(profile.id, channelId);
+
+      // Only unsubscribes once nobody else follows the channel
       try {
         await unsubscribeFromPubSubHubbub(channelChannelId);
       } catch (err) {
@@ -103,8 +137,6 @@ export default function ChannelsPage() {
         });
       }
 
-      await deleteProfileChannel(profile.id, channelId);
-
       setChannels((prevChannels) =>
         prevChannels.filter((channel) => channel.id !== channelId)
       );
@@ -271,7 +303,20 @@ export default function ChannelsPage() {
                       {channel.name}
                     </CardTitle>
                   </div>
-                  <DeleteButton channel={channel} />
+                  <div className="flex items-center">
+                    <VideoTypesDialog
+                      profileId={profile.id}
+                      channel={channel}
+                      onSaved={(preferences) =>
+                        setChannels((prevChannels) =>
+                          prevChannels.map((c) =>
+                            c.id === channel.id ? { ...c, ...preferences } : c
+                          )
+                        )
+                      }
+                    />
+                    <DeleteButton channel={channel} />
+                  </div>
                 </div>
                 <div className="grid gap-[2px] text-xs font-medium leading-relaxed">
                   <div className="flex items-center gap-1.5 text-muted-foreground">
@@ -297,6 +342,12 @@ export default function ChannelsPage() {
                       {channel.customUrl}
                     </a>
                   </div>
+                  {getWatchWarning(channel) && (
+                    <div className="flex items-center gap-1.5 text-amber-600 dark:text-amber-400">
+                      <AlertTriangle className="h-3.5 w-3.5" />
+                      <span>{getWatchWarning(channel)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </CardHeader>
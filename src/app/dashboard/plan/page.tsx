@@ -24,6 +24,7 @@ import { useToast } from "@/hooks/use-toast";
 import { supabaseAnon } from "@/lib/supabase";
 import { useProfile } from "@/hooks/use-profile";
 import { Plan } from "@/lib/types";
+import { AI_CONTENT_FEATURES } from "@/lib/constants";
 
 function formatPrice(amount: number) {
   return new Intl.NumberFormat("en-US", {
@@ -204,6 +205,25 @@ export default function PlanPage() {
                         <Check className="h-4 w-4 text-primary flex-shrink-0" />
                         <span>{plan.features.ai_summary.description}</span>
                       </li>
+                      {Boolean(plan.personalized_summary_limit) && (
+                        <li className="flex items-center gap-2">
+                          <Check className="h-4 w-4 text-primary flex-shrink-0" />
+                          <span>
+                            {plan.personalized_summary_limit} personalized
+                            summaries/mo
+                          </span>
+                        </li>
+                      )}
+                      {AI_CONTENT_FEATURES.filter(
+                        ({ key }) => plan.features[key]?.enabled
+                      ).map(({ key, label }) => (
+                        <li key={key} className="flex items-center gap-2">
+                          <Check className="h-4 w-4 text-primary flex-shrink-0" />
+                          <span>
+                            {plan.features[key]?.description || label}
+                          </span>
+                        </li>
+                      ))}
                       {plan.features.transcription.enabled && (
                         <li className="flex items-center gap-2">
                           <Check className="h-4 w-4 text-primary flex-shrink-0" />
@@ -12,20 +12,43 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { supabaseAnon } from "@/lib/supabase";
 import { useProfile } from "@/hooks/use-profile";
+import { LANGUAGE_OPTIONS, SUMMARY_STYLE_OPTIONS } from "@/lib/constants";
+import { SummaryStyle } from "@/lib/types";
+
+// Select items can't have an empty value, this stands for null
+const VIDEO_LANGUAGE = "video";
 
 const formSchema = z.object({
   first_name: z.string().min(2, "First name must be at least 2 characters"),
   last_name: z.string().min(2, "Last name must be at least 2 characters"),
   email: z.string().email(),
+  notify_on_retitle: z.boolean(),
+  notify_without_summary: z.boolean(),
+  summary_language: z.string(),
+  summary_style: z.enum([
+    "standard",
+    "tldr",
+    "detailed",
+    "bullets",
+    "actionable",
+  ]),
 });
 
 type ProfileFormValues = z.infer<typeof formSchema>;
@@ -42,6 +65,10 @@ export default function ProfilePage() {
       first_name: "",
       last_name: "",
       email: "",
+      notify_on_retitle: false,
+      notify_without_summary: false,
+      summary_language: VIDEO_LANGUAGE,
+      summary_style: "standard",
     },
   });
 
@@ -52,6 +79,10 @@ export default function ProfilePage() {
         first_name: profile.first_name || "",
         last_name: profile.last_name || "",
         email: profile.email || "",
+        notify_on_retitle: profile.notify_on_retitle ?? false,
+        notify_without_summary: profile.notify_without_summary ?? false,
+        summary_language: profile.summary_language ?? VIDEO_LANGUAGE,
+        summary_style: profile.summary_style ?? "standard",
       });
     }
   }, [profile, form]);
@@ -68,6 +99,14 @@ export default function ProfilePage() {
         .update({
           first_name: data.first_name,
           last_name: data.last_name,
+          notify_on_retitle: data.notify_on_retitle,
+          notify_without_summary: data.notify_without_summary,
+          summary_language:
+            data.summary_language === VIDEO_LANGUAGE
+              ? null
+              : data.summary_language,
+          summary_style:
+            data.summary_style === "standard" ? null : data.summary_style,
           updated_at: new Date().toISOString(),
         })
         .eq("id", user?.id);
@@ -171,6 +210,125 @@ export default function ProfilePage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="summary_language"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Summary language</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-[240px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={VIDEO_LANGUAGE}>
+                            Same as the video
+                          </SelectItem>
+                          {LANGUAGE_OPTIONS.map((option) => (
+                            <SelectItem key={option.code} value={option.code}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Summaries of videos in other languages are translated
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="summary_style"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Summary style</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={(value) =>
+                          field.onChange(value as SummaryStyle)
+                        }
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-[240px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {SUMMARY_STYLE_OPTIONS.map((option) => (
+                            <SelectItem key={option.style} value={option.style}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {
+                          SUMMARY_STYLE_OPTIONS.find(
+                            (option) => option.style === field.value
+                          )?.description
+                        }
+                      </FormDescription>
+                      <FormDescription>
+                        Styles other than standard count toward your plan&apos;s
+                        personalized summaries
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="notify_on_retitle"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          className="mt-1 h-4 w-4 accent-primary"
+                          checked={field.value}
+                          onChange={(e) => field.onChange(e.target.checked)}
+                        />
+                      </FormControl>
+                      <div className="space-y-1">
+                        <FormLabel>Retitle notes</FormLabel>
+                        <FormDescription>
+                          Email me when a video I was notified about gets a new
+                          title
+                        </FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="notify_without_summary"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          className="mt-1 h-4 w-4 accent-primary"
+                          checked={field.value}
+                          onChange={(e) => field.onChange(e.target.checked)}
+                        />
+                      </FormControl>
+                      <div className="space-y-1">
+                        <FormLabel>Videos without captions</FormLabel>
+                        <FormDescription>
+                          Still email me a link when a video never gets captions
+                          to summarize
+                        </FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
                 <div className="flex justify-end">
                   <Button type="submit" disabled={isLoading}>
                     {isLoading ? "Saving..." : "Save changes"}
@@ -6,12 +6,22 @@ import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { Sparkles, ArrowRight, Youtube } from "lucide-react";
 import { CopyButton } from "@/components/copy-button";
+import { CaptionSegment } from "@/lib/types";
+import {
+  formatTimestamp,
+  getTimestampUrl,
+  groupSegments,
+} from "@/lib/transcript-segments";
+
+// Segments are a few words each, so they are shown in blocks this long
+const PARAGRAPH_SECONDS = 30;
 
 interface TranscriptContentProps {
   videoId: string;
   captions: {
     title?: string;
     transcript: string;
+    segments?: CaptionSegment[] | null;
   };
 }
 
@@ -146,9 +156,29 @@ export function TranscriptContent({
             </Button>
             <CopyButton text={captions.transcript} />
           </div>
-          <p className="whitespace-pre-wrap leading-relaxed text-sm">
-            {captions.transcript}
-          </p>
+          {captions.segments?.length ? (
+            <div className="space-y-4">
+              {groupSegments(captions.segments, PARAGRAPH_SECONDS).map(
+                (paragraph) => (
+                  <div key={paragraph.start} className="flex gap-4 text-sm">
+                    <Link
+                      href={getTimestampUrl(videoId, paragraph.start)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="w-14 shrink-0 font-mono text-primary hover:underline"
+                    >
+                      {formatTimestamp(paragraph.start)}
+                    </Link>
+                    <p className="leading-relaxed">{paragraph.text}</p>
+                  </div>
+                )
+              )}
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap leading-relaxed text-sm">
+              {captions.transcript}
+            </p>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -2,7 +2,13 @@
 
 import * as React from "react";
 import { usePathname } from "next/navigation";
-import { Settings2, Youtube, CreditCard, Receipt } from "lucide-react";
+import {
+  Settings2,
+  Youtube,
+  CreditCard,
+  Receipt,
+  Activity,
+} from "lucide-react";
 
 import { NavMain } from "@/components/ui/nav-main";
 import { NavUser } from "@/components/ui/nav-user";
@@ -58,6 +64,18 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         },
       ],
     },
+    // Only admins can see the worker status page
+    ...(profile?.is_admin
+      ? [
+          {
+            title: "Workers",
+            url: "/dashboard/admin/workers",
+            icon: Activity,
+            isActive: pathname.startsWith("/dashboard/admin"),
+            items: [],
+          },
+        ]
+      : []),
   ];
 
   const data = {
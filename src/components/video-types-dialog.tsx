@@ -0,0 +1,210 @@
+"use client";
+
+import * as React from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  updateChannelCaptionLanguage,
+  updateChannelSummaryFocus,
+  updateChannelVideoTypes,
+} from "@/lib/supabase";
+import { LANGUAGE_OPTIONS, MAX_SUMMARY_FOCUS_LENGTH } from "@/lib/constants";
+import { ChannelListItem, VideoType, VideoTypePreferences } from "@/lib/types";
+
+// Select items can't have an empty value, this stands for null
+const ANY_LANGUAGE = "any";
+
+const VIDEO_TYPE_OPTIONS: {
+  type: VideoType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    type: "regular",
+    label: "Regular uploads",
+    description: "Standard videos",
+  },
+  {
+    type: "short",
+    label: "Shorts",
+    description: "Usually too short to summarize well",
+  },
+  {
+    type: "live_replay",
+    label: "Live stream replays",
+    description: "Long streams are summarized once they end",
+  },
+  {
+    type: "premiere",
+    label: "Premieres",
+    description: "Summarized once the premiere has aired",
+  },
+];
+
+interface VideoTypesDialogProps {
+  profileId: string;
+  channel: ChannelListItem;
+  onSaved: (preferences: {
+    videoTypes: VideoTypePreferences;
+    captionLanguage: string | null;
+    summaryFocus: string | null;
+  }) => void;
+}
+
+export function VideoTypesDialog({
+  profileId,
+  channel,
+  onSaved,
+}: VideoTypesDialogProps) {
+  const [open, setOpen] = React.useState(false);
+  const [videoTypes, setVideoTypes] = React.useState(channel.videoTypes);
+  const [captionLanguage, setCaptionLanguage] = React.useState(
+    channel.captionLanguage
+  );
+  const [summaryFocus, setSummaryFocus] = React.useState(
+    channel.summaryFocus ?? ""
+  );
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  // Start from the saved preferences every time the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setVideoTypes(channel.videoTypes);
+      setCaptionLanguage(channel.captionLanguage);
+      setSummaryFocus(channel.summaryFocus ?? "");
+    }
+  }, [open, channel.videoTypes, channel.captionLanguage, channel.summaryFocus]);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await updateChannelVideoTypes(profileId, channel.id, videoTypes);
+      await updateChannelCaptionLanguage(
+        profileId,
+        channel.id,
+        captionLanguage
+      );
+      const focus = summaryFocus.trim() || null;
+      await updateChannelSummaryFocus(profileId, channel.id, focus);
+      onSaved({ videoTypes, captionLanguage, summaryFocus: focus });
+      setOpen(false);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to save preferences. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8">
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Channel Preferences</DialogTitle>
+          <DialogDescription>
+            Choose which videos from &quot;{channel.name}&quot; you get
+            summaries for. Skipped videos don&apos;t count toward your plan.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          {VIDEO_TYPE_OPTIONS.map((option) => (
+            <label
+              key={option.type}
+              className="flex flex-row items-start space-x-3"
+            >
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 accent-primary"
+                checked={videoTypes[option.type]}
+                onChange={(e) =>
+                  setVideoTypes((prev) => ({
+                    ...prev,
+                    [option.type]: e.target.checked,
+                  }))
+                }
+              />
+              <div className="space-y-1">
+                <div className="text-sm font-medium">{option.label}</div>
+                <div className="text-sm text-muted-foreground">
+                  {option.description}
+                </div>
+              </div>
+            </label>
+          ))}
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Caption language</div>
+            <Select
+              value={captionLanguage ?? ANY_LANGUAGE}
+              onValueChange={(value) =>
+                setCaptionLanguage(value === ANY_LANGUAGE ? null : value)
+              }
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_LANGUAGE}>Any available</SelectItem>
+                {LANGUAGE_OPTIONS.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="text-sm text-muted-foreground">
+              Summarize from captions in this language when the video has them
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Summary focus</div>
+            <Input
+              value={summaryFocus}
+              maxLength={MAX_SUMMARY_FOCUS_LENGTH}
+              placeholder="e.g. only care about price changes"
+              onChange={(e) => setSummaryFocus(e.target.value)}
+            />
+            <div className="text-sm text-muted-foreground">
+              Optional. Focused summaries count toward your plan&apos;s
+              personalized summaries.
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { supabaseAnon } from "@/lib/supabase";
+import { isAdminProfile, supabaseAnon } from "@/lib/supabase";
 import { getDefaultAvatar } from "@/lib/utils";
 import { logger } from "@/lib/logger";
 import { Profile } from "@/lib/types";
@@ -126,8 +126,13 @@ export function ProfileProvider({ children }: { children: React.ReactNode }) {
       if (!isMounted.current) return;
       if (profileError) throw profileError;
 
+      // A failed check only hides the admin pages
+      const isAdmin = await isAdminProfile(user.id).catch(() => false);
+      if (!isMounted.current) return;
+
       const profileData = {
         ...profileWithSubscription,
+        is_admin: isAdmin,
         email: user.email,
         avatar_url:
           profileWithSubscription.avatar_url ||
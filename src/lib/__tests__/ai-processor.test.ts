@@ -0,0 +1,194 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  generateVideoInsights,
+  generateVideoSummary,
+} from "@/lib/ai-processor";
+import { CompletionRequest, SummaryProvider } from "@/lib/summary-providers";
+import { SummaryOutputError } from "@/lib/summary-errors";
+import { CaptionSegment, Video } from "@/lib/types";
+
+const video = {
+  id: "video-1",
+  title: "Test video",
+  url: "https://youtube.com/watch?v=video-1",
+} as Video;
+
+// Each caption is long enough to become its own part
+const sentence = (word: string) =>
+  Array.from({ length: 20 }, () => word).join(" ");
+const segments: CaptionSegment[] = [
+  { text: sentence("intro"), start: 0, duration: 30 },
+  { text: sentence("review"), start: 75, duration: 30 },
+];
+const transcript = segments.map((segment) => segment.text).join(" ");
+const shortTranscript = "A short video about testing the summary prompts.";
+const REPAIR_REQUEST = "Your previous answer could not be used";
+
+/**
+ * Answers each prompt with the first reply whose key the prompt contains
+ */
+function createStubProvider(replies: [string, unknown][]) {
+  const requests: CompletionRequest[] = [];
+  const provider: SummaryProvider = {
+    name: "fake",
+    model: "stub",
+    isConfigured: () => true,
+    async complete(request) {
+      requests.push(request);
+      const reply = replies.find(([key]) => request.prompt.includes(key));
+      if (!reply) throw new Error("No stub reply for prompt");
+      return typeof reply[1] === "string" ? reply[1] : JSON.stringify(reply[1]);
+    },
+  };
+  return { provider, requests };
+}
+
+describe("generateVideoInsights", () => {
+  it("merges what each part of the transcript found", async () => {
+    const { provider, requests } = createStubProvider([
+      [
+        "part 1 of 2",
+        {
+          chapters: [{ start: "0:00", title: "Intro" }],
+          tags: ["Phones", "reviews"],
+          tone: { sentiment: "positive", labels: ["upbeat"] },
+        },
+      ],
+      [
+        "part 2 of 2",
+        {
+          chapters: [{ start: "1:15", title: "Review" }],
+          tags: ["reviews", "cameras"],
+          tone: { sentiment: "negative", labels: ["critical"] },
+        },
+      ],
+    ]);
+
+    const insights = await generateVideoInsights(video, transcript, {
+      features: ["chapters", "tags", "tone"],
+      segments,
+      provider,
+    });
+
+    assert.equal(requests.length, 2);
+    assert.deepEqual(insights, {
+      chapters: [
+        { start: 0, title: "Intro" },
+        { start: 75, title: "Review" },
+      ],
+      tags: ["phones", "reviews", "cameras"],
+      tone: { sentiment: "mixed", labels: ["upbeat", "critical"] },
+    });
+  });
+
+  it("accepts parts without chapters or tags", async () => {
+    const { provider, requests } = createStubProvider([
+      [
+        "part 1 of 2",
+        { chapters: [{ start: "0:00", title: "Intro" }], tags: [] },
+      ],
+      ["part 2 of 2", { chapters: [], tags: [] }],
+    ]);
+
+    const insights = await generateVideoInsights(video, transcript, {
+      features: ["chapters", "tags"],
+      segments,
+      provider,
+    });
+
+    // Neither part was asked again
+    assert.equal(requests.length, 2);
+    assert.deepEqual(insights, {
+      chapters: [{ start: 0, title: "Intro" }],
+    });
+  });
+});
+
+describe("generateVideoSummary", () => {
+  it("summarizes a long transcript in parts and merges them", async () => {
+    const { provider, requests } = createStubProvider([
+      [
+        "These are summaries of consecutive parts",
+        { briefSummary: "The whole video.", keyPoints: ["Intro", "Review"] },
+      ],
+      [
+        "part 1 of 2",
+        { briefSummary: "The opening.", keyPoints: ["Says hello"] },
+      ],
+      ["part 2 of 2", { briefSummary: "The verdict.", keyPoints: ["Buy it"] }],
+    ]);
+
+    const summary = await generateVideoSummary(video, transcript, {
+      segments,
+      provider,
+    });
+
+    assert.deepEqual(summary, {
+      briefSummary: "The whole video.",
+      keyPoints: ["Intro", "Review"],
+      provider: "fake",
+      model: "stub",
+    });
+    assert.equal(requests.length, 3);
+    // The merge sees every part, in order and with where it starts
+    const mergePrompt = requests[2].prompt;
+    assert.match(
+      mergePrompt,
+      /Part 1 \(from 0:00\): The opening\.\n- Says hello/
+    );
+    assert.match(mergePrompt, /Part 2 \(from 1:15\): The verdict\.\n- Buy it/);
+    assert.ok(
+      mergePrompt.indexOf("The opening.") < mergePrompt.indexOf("The verdict.")
+    );
+  });
+
+  it("accepts a JSON object wrapped in prose or fences", async () => {
+    const { provider, requests } = createStubProvider([
+      [
+        "Transcript:",
+        'Here you go:\n```json\n{ "briefSummary": "Short.", "keyPoints": ["One"] }\n```',
+      ],
+    ]);
+
+    const summary = await generateVideoSummary(video, shortTranscript, {
+      provider,
+    });
+
+    assert.equal(summary?.briefSummary, "Short.");
+    assert.equal(requests.length, 1);
+  });
+
+  it("asks the model again when its answer is invalid", async () => {
+    const { provider, requests } = createStubProvider([
+      [REPAIR_REQUEST, { briefSummary: "Fixed.", keyPoints: ["One"] }],
+      ["Transcript:", { briefSummary: "Missing points.", keyPoints: [] }],
+    ]);
+
+    const summary = await generateVideoSummary(video, shortTranscript, {
+      provider,
+    });
+
+    assert.equal(summary?.briefSummary, "Fixed.");
+    assert.equal(requests.length, 2);
+    // The model is told what was wrong and shown its answer
+    assert.match(requests[1].prompt, /keyPoints/);
+    assert.match(requests[1].prompt, /Missing points\./);
+    assert.equal(requests[1].temperature, 0);
+  });
+
+  it("gives up when the second answer is invalid too", async () => {
+    const { provider, requests } = createStubProvider([
+      [REPAIR_REQUEST, "Sorry, I can't do that."],
+      ["Transcript:", "not json"],
+    ]);
+
+    await assert.rejects(
+      generateVideoSummary(video, shortTranscript, { provider }),
+      (error) =>
+        error instanceof SummaryOutputError &&
+        error.problem === "the answer contains no JSON object"
+    );
+    assert.equal(requests.length, 2);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { sleep } from "@/lib/concurrency";
+
+describe("sleep", () => {
+  it("wakes up as soon as the worker stops", async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+
+    const sleeping = sleep(60 * 60 * 1000, controller.signal);
+    setTimeout(() => controller.abort(), 10);
+    await sleeping;
+
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  it("doesn't wait at all once stopped", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const startedAt = Date.now();
+
+    await sleep(60 * 60 * 1000, controller.signal);
+
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+});
@@ -0,0 +1,7 @@
+// Loaded before the tests: the Supabase clients are created on import, and
+// logs are posted to an app that isn't running
+process.env.NEXT_PUBLIC_SUPABASE_URL ??= "http://127.0.0.1:54321";
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ??= "test-anon-key";
+process.env.NEXT_PUBLIC_APP_URL ??= "http://127.0.0.1:9";
+// Small enough that a few sentences are summarized in parts
+process.env.SUMMARY_CHUNK_TOKENS ??= "50";
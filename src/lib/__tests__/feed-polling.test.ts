@@ -0,0 +1,195 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fetchChannelFeedById } from "@/lib/youtube-feed";
+import {
+  FeedPollingStore,
+  FeedPollingWorker,
+  findMissedVideos,
+  getPollIntervalMinutes,
+} from "@/lib/feed-polling-worker";
+import { FeedPollChannel, FeedPollUpdate } from "@/lib/types";
+
+const CHANNEL_ID = "UCfixtureChannel000000001";
+
+/**
+ * Serves the fixture feed the way YouTube serves videos.xml
+ */
+async function startFixtureFeedServer(): Promise<Server> {
+  const feed = await readFile(
+    path.join(__dirname, "fixtures", "videos.xml"),
+    "utf8"
+  );
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (
+      url.pathname === "/feeds/videos.xml" &&
+      url.searchParams.get("channel_id") === CHANNEL_ID
+    ) {
+      response.writeHead(200, { "Content-Type": "application/atom+xml" });
+      response.end(feed);
+      return;
+    }
+    response.writeHead(404);
+    response.end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+}
+
+/**
+ * Keeps the video registry and channel updates in memory, and records
+ * what would have been queued
+ */
+function createMemoryStore(registeredVideoIds: string[]) {
+  const registered = new Set(registeredVideoIds);
+  const enqueued: string[] = [];
+  const updates: FeedPollUpdate[] = [];
+  const store: FeedPollingStore = {
+    async getChannelsDueForFeedPoll() {
+      return [];
+    },
+    async registerVideo(video) {
+      const isNew = !registered.has(video.videoId);
+      registered.add(video.videoId);
+      return { isNew, previousTitle: null, deletedAt: null };
+    },
+    async unregisterVideo(videoId) {
+      registered.delete(videoId);
+    },
+    async enqueueVideo(video) {
+      enqueued.push(video.videoId);
+    },
+    async updateChannelFeedPoll(_channelId, update) {
+      updates.push(update);
+    },
+  };
+  return { store, registered, enqueued, updates };
+}
+
+describe("feed polling", () => {
+  let server: Server;
+
+  before(async () => {
+    server = await startFixtureFeedServer();
+    const { port } = server.address() as AddressInfo;
+    process.env.YOUTUBE_FEED_BASE_URL = `http://127.0.0.1:${port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("parses the channel and its videos from the feed", async () => {
+    const { channel, videos } = await fetchChannelFeedById(CHANNEL_ID);
+
+    assert.equal(channel.channelId, CHANNEL_ID);
+    assert.equal(channel.title, "Fixture Channel");
+    assert.equal(channel.author, "Fixture Author");
+    assert.equal(channel.lastVideoId, "video-3");
+    assert.equal(
+      channel.thumbnail,
+      "https://i.ytimg.com/vi/video-3/hqdefault.jpg"
+    );
+    assert.equal(channel.viewCount, 1200);
+    assert.deepEqual(
+      videos.map((video) => video.videoId),
+      ["video-3", "video-2", "video-1"]
+    );
+    assert.deepEqual(videos[0], {
+      videoId: "video-3",
+      channelId: CHANNEL_ID,
+      title: "Third upload",
+      authorName: "Fixture Author",
+      published: "2026-10-15T12:00:00+00:00",
+      updated: "2026-10-15T12:30:00+00:00",
+    });
+  });
+
+  it("rejects a channel without a feed", async () => {
+    await assert.rejects(
+      fetchChannelFeedById("UCunknownChannel00000000"),
+      /Failed to fetch feed: 404/
+    );
+  });
+
+  it("finds the uploads after the last known video", async () => {
+    const { videos } = await fetchChannelFeedById(CHANNEL_ID);
+
+    const missed = findMissedVideos(videos, {
+      last_video_id: "video-1",
+      last_video_date: "2026-10-11T12:00:00+00:00",
+    });
+
+    assert.deepEqual(
+      missed.map((video) => video.videoId),
+      ["video-3", "video-2"]
+    );
+  });
+
+  it("only seeds a channel without a last known video", async () => {
+    const { videos } = await fetchChannelFeedById(CHANNEL_ID);
+
+    assert.deepEqual(
+      findMissedVideos(videos, { last_video_id: null, last_video_date: null }),
+      []
+    );
+  });
+
+  it("polls a channel a few times between its uploads", async () => {
+    const { videos } = await fetchChannelFeedById(CHANNEL_ID);
+
+    // Uploads two days apart
+    assert.equal(getPollIntervalMinutes(videos), 12 * 60);
+    assert.equal(getPollIntervalMinutes(videos.slice(0, 1)), 6 * 60);
+  });
+
+  it("queues each missed upload once, skipping ones the hub delivered", async () => {
+    // The hub already pushed video-2 to the webhook
+    const { store, enqueued, updates } = createMemoryStore(["video-2"]);
+    const worker = new FeedPollingWorker(store);
+    const channel: FeedPollChannel = {
+      id: CHANNEL_ID,
+      last_video_id: "video-1",
+      last_video_date: "2026-10-11T12:00:00+00:00",
+    };
+
+    await worker.pollChannel(channel);
+    // A poll before the channel's new baseline was read finds them again
+    await worker.pollChannel(channel);
+
+    assert.deepEqual(enqueued, ["video-3"]);
+    assert.equal(updates.length, 2);
+    assert.equal(updates[0].last_video_id, "video-3");
+    assert.equal(updates[0].last_video_date, "2026-10-15T12:00:00+00:00");
+    assert.equal(updates[0].feed_poll_interval_minutes, 12 * 60);
+    const nextPollInMinutes =
+      (new Date(updates[0].next_feed_poll_at).getTime() - Date.now()) / 60000;
+    assert.ok(nextPollInMinutes > 12 * 60 - 1 && nextPollInMinutes <= 12 * 60);
+  });
+
+  it("forgets a video it failed to queue, so the next poll retries it", async () => {
+    const { store, registered, updates } = createMemoryStore([]);
+    store.enqueueVideo = async () => {
+      throw new Error("Queue unavailable");
+    };
+    const worker = new FeedPollingWorker(store);
+
+    await assert.rejects(
+      worker.pollChannel({
+        id: CHANNEL_ID,
+        last_video_id: "video-2",
+        last_video_date: "2026-10-13T12:00:00+00:00",
+      }),
+      /Queue unavailable/
+    );
+
+    assert.equal(registered.has("video-3"), false);
+    // The baseline stays put too
+    assert.equal(updates.length, 0);
+  });
+});
@@ -0,0 +1,203 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryJobQueue } from "@/lib/memory-job-queue";
+import { MemoryWorkerStore } from "@/lib/worker-store";
+import { MemoryPipelineStore } from "@/lib/pipeline-store";
+import {
+  FanoutStageWorker,
+  IngestStageWorker,
+  PIPELINE_QUEUES,
+  RenderStageWorker,
+  SummarizeStageWorker,
+  TranscriptStageWorker,
+} from "@/lib/pipeline-stages";
+import { YouTubeQueueMessage } from "@/lib/types";
+
+const CHANNEL_ID = "UCfixtureChannel000000001";
+
+const message: YouTubeQueueMessage = {
+  channelId: CHANNEL_ID,
+  videoId: "video-1",
+  title: "First upload",
+  authorName: "Fixture Author",
+  published: "2026-10-11T12:00:00+00:00",
+  updated: "2026-10-11T12:30:00+00:00",
+};
+
+// Stages read their queue in batches; these read one on demand
+class TestIngestStage extends IngestStageWorker {
+  runBatch() {
+    return this.processBatch();
+  }
+}
+
+class TestTranscriptStage extends TranscriptStageWorker {
+  runBatch() {
+    return this.processBatch();
+  }
+}
+
+class TestSummarizeStage extends SummarizeStageWorker {
+  runBatch() {
+    return this.processBatch();
+  }
+}
+
+class TestRenderStage extends RenderStageWorker {
+  runBatch() {
+    return this.processBatch();
+  }
+}
+
+class TestFanoutStage extends FanoutStageWorker {
+  runBatch() {
+    return this.processBatch();
+  }
+}
+
+describe("video pipeline", () => {
+  let queue: MemoryJobQueue;
+  let data: MemoryPipelineStore;
+  let stages: { runBatch(): Promise<number> }[];
+
+  beforeEach(() => {
+    // Offline captions and summaries; without an API key every video is
+    // taken as a watchable regular upload
+    process.env.TRANSCRIPT_PROVIDERS = "fake";
+    delete process.env.YOUTUBE_API_KEY;
+
+    queue = new MemoryJobQueue();
+    data = new MemoryPipelineStore();
+    data.summaryProvider = "fake";
+    const store = new MemoryWorkerStore();
+    stages = [
+      new TestIngestStage(queue, data, store),
+      new TestTranscriptStage(queue, data, store),
+      new TestSummarizeStage(queue, data, store),
+      new TestRenderStage(queue, data, store),
+      new TestFanoutStage(queue, data, store),
+    ];
+  });
+
+  it("turns a new upload into a notification per eligible subscriber", async () => {
+    data.subscribers.push(
+      { channelId: CHANNEL_ID, profileId: "profile-en" },
+      { channelId: CHANNEL_ID, profileId: "profile-de", summaryLanguage: "de" },
+      {
+        channelId: CHANNEL_ID,
+        profileId: "profile-tags",
+        aiContentFeatures: ["tags"],
+      },
+      { channelId: CHANNEL_ID, profileId: "over-limit", eligible: false },
+      {
+        channelId: CHANNEL_ID,
+        profileId: "shorts-only",
+        videoTypes: ["short"],
+      }
+    );
+    await queue.send(PIPELINE_QUEUES.ingest, message);
+
+    // Each stage hands the video on to the next one
+    for (const stage of stages) {
+      assert.equal(await stage.runBatch(), 1);
+    }
+
+    assert.equal(data.captions.get("video-1")?.provider, "fake");
+    assert.deepEqual(Array.from(data.aiContents.keys()).sort(), [
+      "video-1:de",
+      "video-1:en",
+    ]);
+    assert.deepEqual(data.alertedChannelIds, [CHANNEL_ID]);
+
+    const notifications = new Map(
+      data.notifications.map((row) => [row.profile_id, row])
+    );
+    assert.deepEqual(Array.from(notifications.keys()).sort(), [
+      "profile-de",
+      "profile-en",
+      "profile-tags",
+    ]);
+    assert.equal(
+      notifications.get("profile-en")?.email_content,
+      data.emailTemplates.get("video-1:en")?.replace(/\n/g, "")
+    );
+    assert.equal(
+      notifications.get("profile-de")?.email_content,
+      data.emailTemplates.get("video-1:de")?.replace(/\n/g, "")
+    );
+    assert.notEqual(
+      notifications.get("profile-en")?.email_content,
+      notifications.get("profile-de")?.email_content
+    );
+    // Only the plan with tags gets them
+    assert.match(
+      notifications.get("profile-tags")?.email_content ?? "",
+      /#topic-/
+    );
+    assert.doesNotMatch(
+      notifications.get("profile-en")?.email_content ?? "",
+      /#topic-/
+    );
+    assert.ok(
+      data.notifications.every(
+        (row) => row.status === "pending" && !row.personalized
+      )
+    );
+
+    // A second delivery of the same upload notifies nobody twice
+    await queue.send(PIPELINE_QUEUES.ingest, message);
+    for (const stage of stages) {
+      await stage.runBatch();
+    }
+    assert.equal(data.notifications.length, 3);
+  });
+
+  it("adds features a plan enabled after the video was summarized", async () => {
+    data.subscribers.push({
+      channelId: CHANNEL_ID,
+      profileId: "profile-en",
+      aiContentFeatures: ["tags", "tone"],
+    });
+    data.captions.set("video-1", {
+      transcript: "A short video about testing the pipeline.",
+      language: "en",
+      duration: 5,
+    });
+    const summary = {
+      content: { briefSummary: "Stored.", keyPoints: ["One"] },
+      model: "stub",
+    };
+    data.aiContents.set("video-1:en", summary);
+    data.insights.set("video-1:en", {
+      features: ["tags"],
+      insights: { tags: ["stored"] },
+    });
+    await queue.send(PIPELINE_QUEUES.summarize, message);
+
+    const [, , summarize] = stages;
+    await summarize.runBatch();
+
+    assert.equal(data.aiContents.get("video-1:en"), summary);
+    const stored = data.insights.get("video-1:en");
+    assert.deepEqual(stored?.features, ["tags", "tone"]);
+    assert.deepEqual(stored?.insights.tags, ["stored"]);
+    assert.equal(stored?.insights.tone?.sentiment, "neutral");
+  });
+
+  it("drops a video deleted while it was being processed", async () => {
+    data.subscribers.push({ channelId: CHANNEL_ID, profileId: "profile-en" });
+    await queue.send(PIPELINE_QUEUES.ingest, message);
+    const [ingest, transcript, ...rest] = stages;
+    await ingest.runBatch();
+    await transcript.runBatch();
+
+    data.deletedVideoIds.add("video-1");
+    for (const stage of rest) {
+      await stage.runBatch();
+    }
+
+    assert.equal(data.aiContents.size, 0);
+    assert.equal(data.notifications.length, 0);
+    assert.equal((await queue.getDepths())[PIPELINE_QUEUES.render] ?? 0, 0);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { generateHubSecret, verifyHubSignature } from "@/lib/pubsub-signature";
+
+const secret = "test-secret";
+const body = `<feed><entry><yt:videoId>video-1</yt:videoId></entry></feed>`;
+
+const sign = (algorithm: string, text: string, key: string = secret) =>
+  `${algorithm}=${createHmac(algorithm, key)
+    .update(text, "utf8")
+    .digest("hex")}`;
+
+describe("verifyHubSignature", () => {
+  it("accepts the signature the hub computes over the body", () => {
+    assert.equal(verifyHubSignature(body, sign("sha1", body), secret), "valid");
+    assert.equal(
+      verifyHubSignature(body, sign("sha256", body), secret),
+      "valid"
+    );
+  });
+
+  it("rejects a missing header", () => {
+    assert.equal(verifyHubSignature(body, null, secret), "missing");
+  });
+
+  it("rejects headers it can't read", () => {
+    assert.equal(verifyHubSignature(body, "sha1", secret), "malformed");
+    assert.equal(verifyHubSignature(body, "md5=abcdef", secret), "malformed");
+    assert.equal(verifyHubSignature(body, "sha1=not-hex", secret), "malformed");
+  });
+
+  it("rejects a changed body or another secret", () => {
+    const signature = sign("sha1", body);
+
+    assert.equal(
+      verifyHubSignature(body.replace("video-1", "video-2"), signature, secret),
+      "mismatch"
+    );
+    assert.equal(
+      verifyHubSignature(body, sign("sha1", body, "other-secret"), secret),
+      "mismatch"
+    );
+    // A truncated signature must not be compared as a prefix
+    assert.equal(
+      verifyHubSignature(body, signature.slice(0, -2), secret),
+      "mismatch"
+    );
+  });
+
+  it("generates a different secret each time", () => {
+    const first = generateHubSecret();
+
+    assert.match(first, /^[0-9a-f]{64}$/);
+    assert.notEqual(first, generateHubSecret());
+  });
+});
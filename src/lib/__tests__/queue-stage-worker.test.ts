@@ -0,0 +1,173 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryJobQueue } from "@/lib/memory-job-queue";
+import { MemoryWorkerStore } from "@/lib/worker-store";
+import { QueueStageWorker, StageDeferral } from "@/lib/queue-stage-worker";
+import { getDeadLetterQueueName } from "@/lib/dead-letter-queue";
+import { DeadLetterMessage } from "@/lib/types";
+
+const QUEUE_NAME = "test_stage";
+
+interface TestMessage {
+  id: string;
+  failures?: number;
+}
+
+// Records each retry delay, then makes the job visible right away
+class InstantRetryQueue extends MemoryJobQueue {
+  retryDelays: number[] = [];
+
+  async nack(queueName: string, jobId: number, delaySeconds: number) {
+    this.retryDelays.push(delaySeconds);
+    await super.nack(queueName, jobId, 0);
+  }
+}
+
+class TestStageWorker extends QueueStageWorker<TestMessage> {
+  handled: string[] = [];
+  private failuresSoFar = new Map<string, number>();
+
+  constructor(
+    queue: InstantRetryQueue,
+    store: MemoryWorkerStore,
+    private deferral?: StageDeferral<TestMessage>
+  ) {
+    super(
+      {
+        stage: "test",
+        queueName: QUEUE_NAME,
+        logPrefix: "Test",
+        batchSize: 10,
+        concurrency: 2,
+        visibilityTimeoutSeconds: 30,
+        maxAttempts: 3,
+        retryBaseDelaySeconds: 10,
+        idempotencyKey: (message) => message.id,
+      },
+      queue,
+      store
+    );
+  }
+
+  runBatch() {
+    return this.processBatch();
+  }
+
+  protected async handle(message: TestMessage) {
+    const failures = this.failuresSoFar.get(message.id) ?? 0;
+    if (failures < (message.failures ?? 0)) {
+      this.failuresSoFar.set(message.id, failures + 1);
+      throw new Error(`Attempt ${failures + 1} failed`);
+    }
+
+    this.handled.push(message.id);
+    const deferral = this.deferral;
+    this.deferral = undefined;
+    return deferral;
+  }
+}
+
+describe("QueueStageWorker", () => {
+  let queue: InstantRetryQueue;
+  let store: MemoryWorkerStore;
+
+  beforeEach(() => {
+    queue = new InstantRetryQueue();
+    store = new MemoryWorkerStore();
+  });
+
+  it("acks a message once it is handled", async () => {
+    const worker = new TestStageWorker(queue, store);
+    await queue.send(QUEUE_NAME, { id: "a" });
+
+    assert.equal(await worker.runBatch(), 1);
+    assert.deepEqual(worker.handled, ["a"]);
+    assert.equal(await worker.runBatch(), 0);
+    assert.equal(worker.getStats().processed, 1);
+  });
+
+  it("retries with exponential backoff until the message succeeds", async () => {
+    const worker = new TestStageWorker(queue, store);
+    await queue.send(QUEUE_NAME, { id: "a", failures: 2 });
+
+    await worker.runBatch();
+    await worker.runBatch();
+    await worker.runBatch();
+
+    assert.deepEqual(queue.retryDelays, [10, 20]);
+    assert.deepEqual(worker.handled, ["a"]);
+    assert.equal(worker.getStats().failed, 2);
+    assert.equal(worker.getStats().processed, 1);
+  });
+
+  it("dead-letters a message after its last attempt", async () => {
+    const worker = new TestStageWorker(queue, store);
+    await queue.send(QUEUE_NAME, { id: "a", failures: 3 });
+
+    await worker.runBatch();
+    await worker.runBatch();
+    await worker.runBatch();
+
+    assert.deepEqual(queue.retryDelays, [10, 20]);
+    assert.equal(await worker.runBatch(), 0);
+
+    const [deadLetter] = await queue.read<DeadLetterMessage<TestMessage>>(
+      getDeadLetterQueueName(QUEUE_NAME),
+      { limit: 10, visibilityTimeoutSeconds: 0 }
+    );
+    assert.equal(deadLetter.message.sourceQueue, QUEUE_NAME);
+    assert.equal(deadLetter.message.readCount, 3);
+    assert.equal(deadLetter.message.lastError, "Attempt 3 failed");
+    assert.deepEqual(deadLetter.message.message, { id: "a", failures: 3 });
+  });
+
+  it("dead-letters a message whose visibility timeout kept expiring", async () => {
+    const worker = new TestStageWorker(queue, store);
+    await queue.send(QUEUE_NAME, { id: "a" });
+    // Reads that were never acked, as if the worker died each time
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const [job] = await queue.read(QUEUE_NAME, {
+        limit: 1,
+        visibilityTimeoutSeconds: 0,
+      });
+      assert.ok(job);
+    }
+
+    await worker.runBatch();
+
+    assert.deepEqual(worker.handled, []);
+    const depths = await queue.getDepths();
+    assert.equal(depths[QUEUE_NAME], 0);
+    assert.equal(depths[getDeadLetterQueueName(QUEUE_NAME)], 1);
+  });
+
+  it("skips a second delivery of completed work", async () => {
+    const worker = new TestStageWorker(queue, store);
+    await queue.send(QUEUE_NAME, { id: "a" });
+    await queue.send(QUEUE_NAME, { id: "a" });
+
+    await worker.runBatch();
+
+    assert.deepEqual(worker.handled, ["a"]);
+    assert.equal(worker.getStats().duplicates, 1);
+    assert.equal(
+      await store.acquireIdempotencyLease("test:a", "other", 30),
+      "completed"
+    );
+  });
+
+  it("leaves a deferred key open for the deferred copy", async () => {
+    const worker = new TestStageWorker(queue, store, {
+      message: { id: "a" },
+      delaySeconds: 0,
+    });
+    await queue.send(QUEUE_NAME, { id: "a" });
+
+    await worker.runBatch();
+    await worker.runBatch();
+
+    assert.deepEqual(worker.handled, ["a", "a"]);
+    assert.equal(worker.getStats().deferred, 1);
+    assert.equal(worker.getStats().duplicates, 0);
+  });
+});
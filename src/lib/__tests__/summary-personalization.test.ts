@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  filterWithinPersonalizedLimit,
+  isPersonalized,
+  normalizeSummaryFocus,
+} from "@/lib/summary-personalization";
+import { MAX_SUMMARY_FOCUS_LENGTH } from "@/lib/constants";
+import { SummaryPersonalization } from "@/lib/types";
+
+const personalization = (
+  profileId: string,
+  overrides: Partial<SummaryPersonalization> = {}
+): SummaryPersonalization => ({
+  profileId,
+  summaryLanguage: null,
+  style: "tldr",
+  focus: null,
+  ...overrides,
+});
+
+describe("summary personalization", () => {
+  it("only personalizes a style or a focus", () => {
+    assert.equal(isPersonalized(personalization("a")), true);
+    assert.equal(
+      isPersonalized(personalization("a", { style: "standard" })),
+      false
+    );
+    assert.equal(
+      isPersonalized(
+        personalization("a", { style: "standard", focus: "price changes" })
+      ),
+      true
+    );
+  });
+
+  it("drops blank focuses and cuts long ones", () => {
+    assert.equal(normalizeSummaryFocus(null), null);
+    assert.equal(normalizeSummaryFocus("   "), null);
+    assert.equal(normalizeSummaryFocus("  price changes "), "price changes");
+    assert.equal(
+      normalizeSummaryFocus("x".repeat(MAX_SUMMARY_FOCUS_LENGTH + 50))?.length,
+      MAX_SUMMARY_FOCUS_LENGTH
+    );
+  });
+
+  it("keeps subscribers with personalized summaries left", () => {
+    const kept = filterWithinPersonalizedLimit(
+      [
+        personalization("under"),
+        personalization("at-limit"),
+        personalization("no-allowance"),
+        personalization("no-subscription"),
+      ],
+      [
+        { profileId: "under", used: 4, limit: 5 },
+        { profileId: "at-limit", used: 5, limit: 5 },
+        { profileId: "no-allowance", used: 0, limit: 0 },
+      ]
+    );
+
+    assert.deepEqual(
+      kept.map((row) => row.profileId),
+      ["under"]
+    );
+  });
+});
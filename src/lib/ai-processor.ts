@@ -1,34 +1,455 @@
-import OpenAI from "openai";
-import { Video } from "@/lib/types";
+import {
+  AIContentFeature,
+  CaptionSegment,
+  SummaryProviderName,
+  SummaryStyle,
+  Video,
+  VideoInsights,
+} from "@/lib/types";
+import { z } from "zod";
+import { createHash } from "node:crypto";
+import { SummaryProvider, getSummaryProvider } from "@/lib/summary-providers";
+import { SummaryOutputError } from "@/lib/summary-errors";
+import {
+  formatTimestamp,
+  groupSegments,
+  joinSegments,
+  parseTimestamp,
+} from "@/lib/transcript-segments";
+import { createLimiter, getPositiveIntEnv } from "@/lib/concurrency";
 import { logger } from "@/lib/logger";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+// Longer transcripts are summarized in parts that are merged afterwards
+const MAX_CHUNK_TOKENS = getPositiveIntEnv("SUMMARY_CHUNK_TOKENS", 12000);
+// A rough average for English, close enough for a budget
+const CHARS_PER_TOKEN = 4;
+const chunkLimit = createLimiter(3);
+// Transcript lines are this long when timestamps are asked for
+const INSIGHT_LINE_SECONDS = 30;
+const MAX_QUOTES = 5;
+const MAX_TAGS = 8;
+
+const summarySchema = z.object({
+  briefSummary: z.string().trim().min(1),
+  keyPoints: z.array(z.string().trim().min(1)).min(1),
+});
+
+type Summary = z.infer<typeof summarySchema>;
+
+// Models write timestamps as they see them in the transcript
+const timestampSchema = z.union([
+  z.number().nonnegative(),
+  z.string().transform((value, ctx) => {
+    const seconds = parseTimestamp(value);
+    if (seconds === null) {
+      ctx.addIssue({ code: "custom", message: "not a m:ss timestamp" });
+      return z.NEVER;
+    }
+    return seconds;
+  }),
+]);
+
+const insightsSchema = z.object({
+  // A part can have nothing to report, the merged content is checked instead
+  chapters: z.array(
+    z.object({ start: timestampSchema, title: z.string().trim().min(1) })
+  ),
+  quotes: z.array(
+    z.object({
+      text: z.string().trim().min(1),
+      speaker: z
+        .string()
+        .trim()
+        .min(1)
+        .nullish()
+        .transform((v) => v ?? null),
+      start: timestampSchema.nullish().transform((v) => v ?? null),
+    })
+  ),
+  entities: z.array(
+    z.object({
+      name: z.string().trim().min(1),
+      type: z.enum(["person", "product", "link"]),
+      url: z
+        .string()
+        .url()
+        .nullish()
+        .catch(null)
+        .transform((v) => v ?? null),
+    })
+  ),
+  tags: z.array(z.string().trim().toLowerCase().min(1)),
+  tone: z.object({
+    sentiment: z.enum(["positive", "neutral", "negative", "mixed"]),
+    labels: z.array(z.string().trim().toLowerCase().min(1)),
+  }),
 });
 
-interface Summary {
-  keyPoints: string[];
-  briefSummary: string;
+const INSIGHT_INSTRUCTIONS: Record<
+  AIContentFeature,
+  { task: string; format: string }
+> = {
+  chapters: {
+    task: "Chapters: the main sections of the video in order, each with the timestamp of the transcript line where it starts and a short title",
+    format: `"chapters": [{ "start": "0:00", "title": "chapter title" }]`,
+  },
+  quotes: {
+    task: `Notable quotes (at most ${MAX_QUOTES}): memorable sentences said in the video, word for word, with the speaker if the transcript makes it clear`,
+    format: `"quotes": [{ "text": "quote", "speaker": "name or null", "start": "1:23 or null" }]`,
+  },
+  entities: {
+    task: "People, products and links mentioned in the video. Only include a URL when it is said or shown in the transcript",
+    format: `"entities": [{ "name": "name", "type": "person" | "product" | "link", "url": "https://... or null" }]`,
+  },
+  tags: {
+    task: `Topic tags (at most ${MAX_TAGS}): short lowercase topics the video covers`,
+    format: `"tags": ["topic 1", "topic 2"]`,
+  },
+  tone: {
+    task: "Tone: the overall sentiment and 1-3 words describing the style of the video",
+    format: `"tone": { "sentiment": "positive" | "neutral" | "negative" | "mixed", "labels": ["informative"] }`,
+  },
+};
+
+export interface GeneratedSummary extends Summary {
+  provider: SummaryProviderName;
+  model: string; // The model that actually ran
+}
+
+export interface InsightOptions
+  extends Omit<SummaryOptions, "style" | "focus"> {
+  features: AIContentFeature[]; // What to generate, e.g. from the plans
+}
+
+export interface SummaryOptions {
+  language?: string; // Language the summary is written in
+  sourceLanguage?: string; // Language of the transcript, when it may differ
+  segments?: CaptionSegment[] | null; // Lets long transcripts split between lines
+  provider?: SummaryProvider; // Defaults to the configured provider
+  style?: SummaryStyle; // Defaults to the standard summary
+  focus?: string | null; // What the reader cares about, in their words
+}
+
+// What each style asks of the model for the whole video
+const STYLE_TASKS: Record<SummaryStyle, string> = {
+  standard: `1. A concise summary (2-3 sentences)
+2. Key points or takeaways (3-5 bullet points)`,
+  tldr: `1. A TL;DR of the video in one sentence as the summary
+2. The most important key points (1-3 bullet points)`,
+  detailed: `1. A thorough summary (one or two paragraphs)
+2. Key points or takeaways (6-10 bullet points)`,
+  // The summary isn't shown to readers who only want bullet points
+  bullets: `1. A one-line headline (under 12 words) as the summary
+2. Key points covering the whole video (5-8 bullet points)`,
+  actionable: `1. What the viewer can do with this video, in 1-2 sentences, as the summary
+2. Concrete actions or steps the viewer can take (3-6 bullet points). If the video has nothing actionable, say so in the summary and list its key takeaways instead`,
+};
+
+const getFocusInstructions = (focus?: string | null): string =>
+  focus
+    ? `- The reader only cares about this: "${focus}". Focus the summary and the key points on it, and say briefly when the video doesn't cover it
+`
+    : "";
+
+/**
+ * Identifies a focus instruction in cached summaries without storing it
+ * again. Case and spacing don't matter.
+ * @returns A hash, or an empty string when there is no focus
+ */
+export const getFocusHash = (focus?: string | null): string => {
+  const normalized = focus?.trim().replace(/\s+/g, " ").toLowerCase();
+  return normalized
+    ? createHash("sha256").update(normalized).digest("hex")
+    : "";
+};
+
+interface TranscriptChunk {
+  text: string;
+  start: number | null; // Seconds into the video, when segments are known
 }
 
+const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Splits a transcript into parts that fit the token budget. Parts end
+ * between segments when the transcript has them, between words otherwise.
+ */
+const chunkTranscript = (
+  transcript: string,
+  segments?: Pick<CaptionSegment, "text" | "start">[] | null
+): TranscriptChunk[] => {
+  if (estimateTokens(transcript) <= MAX_CHUNK_TOKENS) {
+    return [{ text: transcript, start: null }];
+  }
+
+  const maxChars = MAX_CHUNK_TOKENS * CHARS_PER_TOKEN;
+  const pieces: { text: string; start: number | null }[] = segments?.length
+    ? segments.map((segment) => ({ text: segment.text, start: segment.start }))
+    : transcript.split(/\s+/).map((word) => ({ text: word, start: null }));
+
+  const chunks: TranscriptChunk[] = [];
+  let current: typeof pieces = [];
+  let currentLength = 0;
+  for (const piece of pieces) {
+    if (current.length > 0 && currentLength + piece.text.length > maxChars) {
+      chunks.push({
+        text: joinSegments(current),
+        start: current[0].start,
+      });
+      current = [];
+      currentLength = 0;
+    }
+    current.push(piece);
+    currentLength += piece.text.length + 1;
+  }
+  if (current.length > 0) {
+    chunks.push({
+      text: joinSegments(current),
+      start: current[0].start,
+    });
+  }
+
+  return chunks;
+};
+
+const getLanguageInstructions = (
+  language: string,
+  sourceLanguage?: string
+): string => `- Provide the response in "${language}" language
+${
+  sourceLanguage && sourceLanguage !== language
+    ? `- The transcript is in "${sourceLanguage}" language. Translate names of concepts and any quotes into "${language}" language, keeping proper names as they are
+`
+    : ""
+}`;
+
+const RESPONSE_FORMAT_INSTRUCTIONS = `- Format your response strictly as a JSON object with these exact fields:
+  {
+    "briefSummary": "your summary here",
+    "keyPoints": ["point 1", "point 2", "point 3"]
+  }`;
+
+/**
+ * Reads and validates the JSON object in a model's answer
+ * @returns The object, or what is wrong with the answer
+ */
+const parseModelOutput = <T>(
+  content: string | null,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { output: T } | { problem: string } => {
+  if (!content) {
+    return { problem: "the answer was empty" };
+  }
+
+  // Models like to wrap the object in ```json fences or add a sentence
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    return { problem: "the answer contains no JSON object" };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content.slice(start, end + 1));
+  } catch (parseError) {
+    return {
+      problem: `the JSON is invalid (${
+        parseError instanceof Error ? parseError.message : "Unknown error"
+      })`,
+    };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      problem: result.error.issues
+        .map((issue) => `${issue.path.join(".") || "object"}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+  return { output: result.data };
+};
+
+/**
+ * Sends one prompt and validates the JSON object in the answer. An invalid
+ * answer is sent back to the model once to be fixed.
+ * @throws SummaryOutputError when the second answer is invalid too
+ */
+const requestValidOutput = async <T>(
+  provider: SummaryProvider,
+  system: string,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<T> => {
+  const content = await provider.complete({ system, prompt, temperature: 0.7 });
+  logger.debug("📝 Model response received", {
+    prefix: "AI",
+    data: { provider: provider.name, model: provider.model, content },
+  });
+
+  const parsed = parseModelOutput(content, schema);
+  if ("output" in parsed) return parsed.output;
+
+  logger.warn("🔧 Invalid model output, asking the model to fix it", {
+    prefix: "AI",
+    data: {
+      provider: provider.name,
+      model: provider.model,
+      problem: parsed.problem,
+    },
+  });
+
+  const repairedContent = await provider.complete({
+    system,
+    prompt: `${prompt}
+
+Your previous answer could not be used because ${parsed.problem}:
+${content ?? ""}
+
+Answer again with only the JSON object described above.`,
+    temperature: 0,
+  });
+
+  const repaired = parseModelOutput(repairedContent, schema);
+  if ("output" in repaired) return repaired.output;
+
+  logger.error("🚨 Model returned invalid output twice", {
+    prefix: "AI",
+    data: {
+      provider: provider.name,
+      model: provider.model,
+      problem: repaired.problem,
+      rawContent: repairedContent,
+    },
+  });
+  throw new SummaryOutputError(provider.name, provider.model, repaired.problem);
+};
+
+/**
+ * Sends one summary prompt, see `requestValidOutput`
+ */
+const requestSummary = (
+  provider: SummaryProvider,
+  prompt: string,
+  language: string
+): Promise<Summary> =>
+  requestValidOutput(
+    provider,
+    `You are a skilled content analyzer. Provide concise, informative summaries in "${language}" language. Always format your response as a valid JSON object. If the transcript is missing or very short, acknowledge this limitation in your summary.`,
+    prompt,
+    summarySchema
+  );
+
+/**
+ * Summarizes each part on its own, then merges the part summaries
+ */
+const summarizeInChunks = async (
+  provider: SummaryProvider,
+  chunks: TranscriptChunk[],
+  language: string,
+  sourceLanguage: string | undefined,
+  style: SummaryStyle,
+  focus?: string | null
+): Promise<Summary> => {
+  const partSummaries = await Promise.all(
+    chunks.map((chunk, index) =>
+      chunkLimit(() =>
+        requestSummary(
+          provider,
+          `
+This is part ${index + 1} of ${chunks.length} of a YouTube video transcript${
+            chunk.start !== null
+              ? `, starting at ${formatTimestamp(chunk.start)}`
+              : ""
+          }. Please provide:
+1. A concise summary of this part (2-3 sentences)
+2. Key points of this part (3-5 bullet points)
+
+Important:
+${getLanguageInstructions(language, sourceLanguage)}${getFocusInstructions(
+            focus
+          )}- Do not mention that this is a part of a transcript. Just give the summary and the key points.
+${RESPONSE_FORMAT_INSTRUCTIONS}
+
+Transcript part:
+${chunk.text}
+`,
+          language
+        )
+      )
+    )
+  );
+
+  const parts = partSummaries
+    .map((summary, index) => {
+      const start = chunks[index].start;
+      return `Part ${index + 1}${
+        start !== null ? ` (from ${formatTimestamp(start)})` : ""
+      }: ${summary.briefSummary}
+${summary.keyPoints.map((point) => `- ${point}`).join("\n")}`;
+    })
+    .join("\n\n");
+
+  return requestSummary(
+    provider,
+    `
+These are summaries of consecutive parts of one YouTube video, in order. Please combine them and provide, for the whole video:
+${STYLE_TASKS[style]}
+
+Important:
+- Provide the response in "${language}" language
+${getFocusInstructions(
+  focus
+)}- Do not use something like "The transcript discusses" or "The video is about" or anything like that. Just give the summary and the key points.
+- Do not mention the parts.
+${RESPONSE_FORMAT_INSTRUCTIONS}
+
+Part summaries:
+${parts}
+`,
+    language
+  );
+};
+
+/**
+ * Summarizes a transcript, in parts when it is too long for one prompt
+ * @returns The summary and the model that wrote it, or null when no
+ * provider is set up
+ * @throws SummaryProviderError when the model can't be reached
+ * @throws SummaryOutputError when the model's answer stays invalid
+ */
 export const generateVideoSummary = async (
   video: Video,
   transcript: string,
-  language: string = "en"
-): Promise<Summary | null> => {
+  {
+    language = "en",
+    sourceLanguage,
+    segments,
+    provider = getSummaryProvider(),
+    style = "standard",
+    focus,
+  }: SummaryOptions = {}
+): Promise<GeneratedSummary | null> => {
   try {
     logger.info("🤖 Generating summary for video", {
       prefix: "AI",
       data: {
         title: video.title,
         language,
+        sourceLanguage,
+        style,
+        hasFocus: Boolean(focus),
+        provider: provider.name,
+        model: provider.model,
         transcriptLength: transcript.length,
       },
     });
 
-    if (!process.env.OPENAI_API_KEY) {
-      logger.warn("🔑 No OpenAI API key found, skipping summary generation", {
+    if (!provider.isConfigured()) {
+      logger.warn("🔑 Summary provider not configured, skipping summary", {
         prefix: "AI",
+        data: { provider: provider.name },
       });
       return null;
     }
@@ -42,6 +463,8 @@ export const generateVideoSummary = async (
       return {
         briefSummary: "No transcript available for this video.",
         keyPoints: ["Transcript unavailable", "Cannot generate summary"],
+        provider: provider.name,
+        model: provider.model,
       };
     }
 
@@ -54,19 +477,41 @@ export const generateVideoSummary = async (
       language = "en";
     }
 
-    const prompt = `
+    logger.debug("🌐 Using language for output", {
+      prefix: "AI",
+      data: { language },
+    });
+
+    const chunks = chunkTranscript(transcript, segments);
+    let summary: Summary;
+
+    if (chunks.length > 1) {
+      logger.info("✂️ Summarizing long transcript in parts", {
+        prefix: "AI",
+        data: {
+          videoId: video.id,
+          parts: chunks.length,
+          estimatedTokens: estimateTokens(transcript),
+        },
+      });
+      summary = await summarizeInChunks(
+        provider,
+        chunks,
+        language,
+        sourceLanguage,
+        style,
+        focus
+      );
+    } else {
+      const prompt = `
 Please analyze this YouTube video transcript and provide:
-1. A concise summary (2-3 sentences)
-2. Key points or takeaways (3-5 bullet points)
+${STYLE_TASKS[style]}
 
-Important: 
-- Provide the response in "${language}" language
-- Do not use something like "The transcript discusses" or "The video is about" or anything like that. Just give the summary and the key points.
-- Format your response strictly as a JSON object with these exact fields:
-  {
-    "briefSummary": "your summary here",
-    "keyPoints": ["point 1", "point 2", "point 3"]
-  }
+Important:
+${getLanguageInstructions(language, sourceLanguage)}${getFocusInstructions(
+        focus
+      )}- Do not use something like "The transcript discusses" or "The video is about" or anything like that. Just give the summary and the key points.
+${RESPONSE_FORMAT_INSTRUCTIONS}
 ${
   transcript.length < 50
     ? `
@@ -78,66 +523,17 @@ Note: This transcript appears to be very short or incomplete. Please include thi
 Transcript:
 ${transcript || "No transcript available"}
 `;
+      summary = await requestSummary(provider, prompt, language);
+    }
 
-    logger.debug("🌐 Using language for output", {
-      prefix: "AI",
-      data: { language },
-    });
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: `You are a skilled content analyzer. Provide concise, informative summaries in "${language}" language. Always format your response as a valid JSON object. If the transcript is missing or very short, acknowledge this limitation in your summary.`,
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.7,
-    });
-
-    const content = response.choices[0]?.message?.content;
-    logger.debug("📝 OpenAI response received", {
+    logger.info("✅ Summary generated successfully", {
       prefix: "AI",
-      data: { content },
+      data: {
+        summaryLength: summary.briefSummary.length,
+        pointsCount: summary.keyPoints.length,
+      },
     });
-
-    if (!content) {
-      logger.error("❌ No content in OpenAI response", {
-        prefix: "AI",
-        data: { response },
-      });
-      return null;
-    }
-
-    try {
-      const cleanedContent = content
-        .trim()
-        .replace(/^```json\n/, "") // Remove opening ```json
-        .replace(/\n```$/, ""); // Remove closing ```
-      const summary = JSON.parse(cleanedContent) as Summary;
-      logger.info("✅ Summary generated successfully", {
-        prefix: "AI",
-        data: {
-          summaryLength: summary.briefSummary.length,
-          pointsCount: summary.keyPoints.length,
-        },
-      });
-      return summary;
-    } catch (parseError) {
-      logger.error("🚨 Error parsing GPT response as JSON", {
-        prefix: "AI",
-        data: {
-          error:
-            parseError instanceof Error ? parseError.message : "Unknown error",
-          rawContent: content,
-        },
-      });
-      return null;
-    }
+    return { ...summary, provider: provider.name, model: provider.model };
   } catch (error) {
     logger.error("💥 Error generating summary", {
       prefix: "AI",
@@ -149,3 +545,180 @@ ${transcript || "No transcript available"}
     throw error;
   }
 };
+
+/**
+ * Combines what the model found in each part of a long transcript.
+ * Sentiment that differs between parts makes the video's tone mixed.
+ * Chapters and tags are left out when no part found any.
+ */
+const mergeInsights = (parts: VideoInsights[]): VideoInsights => {
+  const merged: VideoInsights = {};
+  const present = <K extends AIContentFeature>(key: K) =>
+    parts
+      .map((part) => part[key])
+      .filter((value): value is NonNullable<VideoInsights[K]> => !!value);
+
+  const chapters = present("chapters").flat();
+  if (chapters.length) {
+    merged.chapters = chapters.sort((a, b) => a.start - b.start);
+  }
+
+  const quotes = present("quotes");
+  if (quotes.length) {
+    merged.quotes = quotes.flat().slice(0, MAX_QUOTES);
+  }
+
+  const entities = present("entities");
+  if (entities.length) {
+    const seen = new Set<string>();
+    merged.entities = entities.flat().filter((entity) => {
+      const key = `${entity.type}:${entity.name.toLowerCase()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  const tags = present("tags").flat();
+  if (tags.length) {
+    merged.tags = Array.from(new Set(tags)).slice(0, MAX_TAGS);
+  }
+
+  const tones = present("tone");
+  if (tones.length) {
+    const sentiments = new Set(tones.map((tone) => tone.sentiment));
+    merged.tone = {
+      sentiment: sentiments.size === 1 ? tones[0].sentiment : "mixed",
+      labels: Array.from(new Set(tones.flatMap((tone) => tone.labels))).slice(
+        0,
+        3
+      ),
+    };
+  }
+
+  return merged;
+};
+
+/**
+ * The part of the insights the given features cover, e.g. what one
+ * subscriber's plan enables
+ */
+export const pickInsights = (
+  insights: VideoInsights,
+  features: AIContentFeature[]
+): VideoInsights => {
+  const picked: VideoInsights = {};
+  const pick = <K extends AIContentFeature>(key: K) => {
+    if (insights[key]) picked[key] = insights[key];
+  };
+  features.forEach(pick);
+  return picked;
+};
+
+/**
+ * Generates the AI content a plan adds to the summary: chapters, quotes,
+ * mentioned entities, topic tags and tone. Long transcripts are analyzed
+ * in parts whose findings are merged.
+ * @returns The requested content, or null when no provider is set up
+ * @throws SummaryProviderError when the model can't be reached
+ * @throws SummaryOutputError when the model's answer stays invalid
+ */
+export const generateVideoInsights = async (
+  video: Video,
+  transcript: string,
+  {
+    features,
+    language = "en",
+    sourceLanguage,
+    segments,
+    provider = getSummaryProvider(),
+  }: InsightOptions
+): Promise<VideoInsights | null> => {
+  // Chapters need to know where the lines are in the video
+  const requested = features.filter(
+    (feature) => feature !== "chapters" || segments?.length
+  );
+  if (requested.length === 0 || !transcript) return {};
+  if (!provider.isConfigured()) return null;
+
+  logger.info("🧩 Generating AI content for video", {
+    prefix: "AI",
+    data: {
+      title: video.title,
+      language,
+      features: requested,
+      provider: provider.name,
+      model: provider.model,
+    },
+  });
+
+  const lines = segments?.length
+    ? groupSegments(segments, INSIGHT_LINE_SECONDS).map((group) => ({
+        text: `[${formatTimestamp(group.start)}] ${group.text}`,
+        start: group.start,
+      }))
+    : null;
+  const chunks = chunkTranscript(
+    lines ? lines.map((line) => line.text).join("\n") : transcript,
+    lines
+  );
+
+  // The model must answer every requested feature and nothing else
+  const mask: Partial<Record<AIContentFeature, true>> = {};
+  for (const feature of requested) mask[feature] = true;
+  const schema: z.ZodType<VideoInsights, z.ZodTypeDef, unknown> =
+    insightsSchema.pick(mask);
+
+  const parts = await Promise.all(
+    chunks.map((chunk, index) =>
+      chunkLimit(() =>
+        requestValidOutput(
+          provider,
+          `You are a skilled content analyzer. Extract structured information from video transcripts in "${language}" language. Always format your response as a valid JSON object.`,
+          `
+Please analyze this ${
+            chunks.length > 1
+              ? `part ${index + 1} of ${chunks.length} of a`
+              : "a"
+          } YouTube video transcript and provide:
+${requested
+  .map((feature, i) => `${i + 1}. ${INSIGHT_INSTRUCTIONS[feature].task}`)
+  .join("\n")}
+
+Important:
+${getLanguageInstructions(language, sourceLanguage)}${
+            lines
+              ? "- Each transcript line starts with its [m:ss] timestamp. Use these timestamps, do not make up others.\n"
+              : "- Use null for timestamps, the transcript has none.\n"
+          }- Use empty lists when there is nothing to report.
+- Format your response strictly as a JSON object with these exact fields:
+  {
+${requested
+  .map((feature) => `    ${INSIGHT_INSTRUCTIONS[feature].format}`)
+  .join(",\n")}
+  }
+
+Video title: ${video.title}
+
+Transcript:
+${chunk.text}
+`,
+          schema
+        )
+      )
+    )
+  );
+
+  const insights = mergeInsights(parts);
+  logger.info("✅ AI content generated successfully", {
+    prefix: "AI",
+    data: {
+      videoId: video.id,
+      parts: chunks.length,
+      chapters: insights.chapters?.length,
+      quotes: insights.quotes?.length,
+      entities: insights.entities?.length,
+    },
+  });
+  return insights;
+};
@@ -0,0 +1,79 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { isAdminProfile, supabaseAnon } from "@/lib/supabase";
+import { INTERNAL_SECRET_HEADER } from "@/lib/utils";
+import { logger } from "@/lib/logger";
+
+/**
+ * Reads the access token from the bearer header or the auth cookie
+ */
+function getAccessToken(request: Request): string | null {
+  const authHeader = request.headers.get("authorization");
+  if (authHeader && authHeader.startsWith("Bearer ")) {
+    return authHeader.substring(7);
+  }
+
+  const cookieHeader = request.headers.get("cookie");
+  const authCookie = cookieHeader
+    ?.split(";")
+    .map((c) => c.trim())
+    .find((c) => c.startsWith("flow-fusion-auth="));
+  if (!authCookie) return null;
+
+  try {
+    const sessionData = JSON.parse(
+      decodeURIComponent(authCookie.substring("flow-fusion-auth=".length))
+    );
+    return sessionData?.access_token ?? null;
+  } catch (e) {
+    logger.warn("Error parsing auth cookie", {
+      prefix: "API/auth",
+      data: {
+        error: e instanceof Error ? e.message : "Unknown parsing error",
+      },
+    });
+    return null;
+  }
+}
+
+/**
+ * Resolves the caller from the bearer token or auth cookie
+ * @returns The caller's profile id, or null when not signed in
+ */
+export async function getSessionProfileId(
+  request: Request
+): Promise<string | null> {
+  const accessToken = getAccessToken(request);
+  if (!accessToken) return null;
+
+  const {
+    data: { user },
+  } = await supabaseAnon.auth.getUser(accessToken);
+  return user?.id ?? null;
+}
+
+/**
+ * Resolves the caller from the bearer token or auth cookie
+ * @returns The profile id when the caller is an admin, otherwise null
+ */
+export async function getAdminProfileId(
+  request: Request
+): Promise<string | null> {
+  const profileId = await getSessionProfileId(request);
+  if (!profileId) return null;
+
+  return (await isAdminProfile(profileId)) ? profileId : null;
+}
+
+/**
+ * Whether the request comes from the app's own server, see `internalFetch`
+ * @returns false when `INTERNAL_API_SECRET` isn't set
+ */
+export function isInternalRequest(request: Request): boolean {
+  const secret = process.env.INTERNAL_API_SECRET;
+  const presented = request.headers.get(INTERNAL_SECRET_HEADER);
+  if (!secret || !presented) return false;
+
+  // Hashed so both sides have the same length for the constant-time compare
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(presented), digest(secret));
+}
@@ -0,0 +1,59 @@
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `maxConcurrent` tasks at a time,
+ * queueing the rest in call order
+ * @param maxConcurrent - Number of tasks allowed to run in parallel
+ */
+export function createLimiter(maxConcurrent: number): Limiter {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= maxConcurrent) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+/**
+ * Reads a positive integer from the environment, falling back to a default
+ * @param name - Environment variable name
+ * @param fallback - Value used when the variable is unset or invalid
+ */
+export function getPositiveIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Waits between worker loops. Resolves early once the signal aborts, so a
+ * stopping worker doesn't sleep out its whole polling interval.
+ * @param ms - How long to wait
+ * @param signal - Aborted when the worker stops
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+
+    const wake = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    signal?.addEventListener("abort", wake, { once: true });
+  });
+}
@@ -0,0 +1,63 @@
+import { AIContentFeature, SummaryStyle } from "@/lib/types";
+
+// Languages offered for summaries and captions, by ISO 639-1 code
+export const LANGUAGE_OPTIONS: { code: string; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "de", label: "German" },
+  { code: "tr", label: "Turkish" },
+  { code: "fr", label: "French" },
+  { code: "es", label: "Spanish" },
+  { code: "it", label: "Italian" },
+  { code: "pt", label: "Portuguese" },
+  { code: "nl", label: "Dutch" },
+  { code: "pl", label: "Polish" },
+  { code: "ru", label: "Russian" },
+  { code: "ja", label: "Japanese" },
+  { code: "ko", label: "Korean" },
+  { code: "zh", label: "Chinese" },
+];
+
+// AI content a plan can add to the summary, in the order emails show it
+export const AI_CONTENT_FEATURES: { key: AIContentFeature; label: string }[] = [
+  { key: "chapters", label: "Chapters" },
+  { key: "quotes", label: "Notable quotes" },
+  { key: "entities", label: "Mentioned people, products and links" },
+  { key: "tags", label: "Topics" },
+  { key: "tone", label: "Tone" },
+];
+
+// Summary styles subscribers can pick, the standard one is shared
+export const SUMMARY_STYLE_OPTIONS: {
+  style: SummaryStyle;
+  label: string;
+  description: string;
+}[] = [
+  {
+    style: "standard",
+    label: "Standard",
+    description: "A short summary and the key points",
+  },
+  {
+    style: "tldr",
+    label: "TL;DR",
+    description: "One sentence and a few points",
+  },
+  {
+    style: "detailed",
+    label: "Detailed",
+    description: "A longer summary with more key points",
+  },
+  {
+    style: "bullets",
+    label: "Bullet points only",
+    description: "Key points without a summary",
+  },
+  {
+    style: "actionable",
+    label: "What's actionable for me",
+    description: "The steps you can take after watching",
+  },
+];
+
+// Longest summary focus a subscriber can set for a channel
+export const MAX_SUMMARY_FOCUS_LENGTH = 200;
@@ -0,0 +1,120 @@
+import { DeadLetterMessage, QueueJob } from "@/lib/types";
+import type { JobQueue } from "@/lib/job-queue";
+import { logger } from "@/lib/logger";
+
+const MAX_LISTED_DEAD_LETTERS = 100;
+
+export function getDeadLetterQueueName(queueName: string): string {
+  return `${queueName}_dlq`;
+}
+
+/**
+ * Wraps a job that exhausted its retries, keeping the last error for
+ * inspection
+ * @param queueName - Queue the job failed in
+ * @param job - The job as read from that queue
+ * @param lastError - Error of the final attempt
+ */
+export function createDeadLetter<T>(
+  queueName: string,
+  job: QueueJob<T>,
+  lastError: string
+): DeadLetterMessage<T> {
+  return {
+    message: job.message,
+    sourceQueue: queueName,
+    originalMsgId: job.id,
+    readCount: job.attempts,
+    lastError,
+    failedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Lists dead letters without hiding them from later reads
+ * @param queue - Queue backend
+ * @param queueName - Queue whose dead letters to list
+ */
+export async function listDeadLetters<T>(
+  queue: JobQueue,
+  queueName: string
+): Promise<QueueJob<DeadLetterMessage<T>>[]> {
+  try {
+    return await queue.read<DeadLetterMessage<T>>(
+      getDeadLetterQueueName(queueName),
+      { limit: MAX_LISTED_DEAD_LETTERS, visibilityTimeoutSeconds: 0 }
+    );
+  } catch (error) {
+    logger.error("❌ Failed to list dead letters", {
+      prefix: "Dead Letters",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+        queueName,
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sends dead letters back to their source queue for a fresh set of attempts
+ * @param queue - Queue backend
+ * @param queueName - Queue whose dead letters to replay
+ * @param msgIds - Dead-letter message IDs, all of them when omitted
+ * @returns Number of replayed messages
+ */
+export async function replayDeadLetters(
+  queue: JobQueue,
+  queueName: string,
+  msgIds?: number[]
+): Promise<number> {
+  const deadLetters = (await listDeadLetters(queue, queueName)).filter(
+    (deadLetter) => !msgIds || msgIds.includes(deadLetter.id)
+  );
+
+  let replayed = 0;
+  for (const deadLetter of deadLetters) {
+    await queue.send(
+      deadLetter.message.sourceQueue,
+      deadLetter.message.message
+    );
+    await queue.ack(getDeadLetterQueueName(queueName), deadLetter.id);
+    replayed++;
+  }
+
+  logger.info("♻️ Replayed dead letters", {
+    prefix: "Dead Letters",
+    data: { queueName, replayed },
+  });
+  return replayed;
+}
+
+/**
+ * Permanently deletes dead letters
+ * @param queue - Queue backend
+ * @param queueName - Queue whose dead letters to purge
+ * @param msgIds - Dead-letter message IDs, all of them when omitted
+ * @returns Number of purged messages
+ */
+export async function purgeDeadLetters(
+  queue: JobQueue,
+  queueName: string,
+  msgIds?: number[]
+): Promise<number> {
+  const ids =
+    msgIds ??
+    (await listDeadLetters(queue, queueName)).map(
+      (deadLetter) => deadLetter.id
+    );
+
+  let purged = 0;
+  for (const msgId of ids) {
+    if (await queue.ack(getDeadLetterQueueName(queueName), msgId)) purged++;
+  }
+
+  logger.info("🗑️ Purged dead letters", {
+    prefix: "Dead Letters",
+    data: { queueName, purged },
+  });
+  return purged;
+}
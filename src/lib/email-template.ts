@@ -1,4 +1,5 @@
-import { CaptionData } from "@/lib/types";
+import { CaptionData, VideoAIContent } from "@/lib/types";
+import { formatTimestamp, getTimestampUrl } from "@/lib/transcript-segments";
 
 interface EmailTemplateParams {
   videoTitle: string;
@@ -6,15 +7,99 @@ interface EmailTemplateParams {
   publishedAt: string;
   videoId: string;
   captions: CaptionData;
-  summary?: {
-    briefSummary?: string;
-    keyPoints?: string[];
-  };
+  summary?: VideoAIContent["content"];
   upgradeCTA?: string;
   showTranscript?: boolean;
   showUpgradeCTA?: boolean;
 }
 
+/**
+ * Escapes text from YouTube or the model for use in email HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Chapters, quotes and the other AI content the subscribers' plans enable
+ */
+function generateInsightsSection(
+  videoId: string,
+  summary: VideoAIContent["content"]
+): string {
+  const sections: string[] = [];
+
+  if (summary.chapters?.length) {
+    sections.push(`
+    <p style="margin: 0 0 10px 0; font-weight: bold;">Chapters</p>
+    ${summary.chapters
+      .map(
+        (chapter) => `
+      <p style="margin: 0;"><a href="${getTimestampUrl(
+        videoId,
+        chapter.start
+      )}" style="color: #0066cc;">${formatTimestamp(
+          chapter.start
+        )}</a> ${escapeHtml(chapter.title)}</p>
+    `
+      )
+      .join("")}`);
+  }
+
+  if (summary.quotes?.length) {
+    sections.push(`
+    <p style="margin: 0 0 10px 0; font-weight: bold;">Notable quotes</p>
+    ${summary.quotes
+      .map(
+        (quote) => `
+      <p style="margin: 0 0 10px 0; font-style: italic;">“${escapeHtml(
+        quote.text
+      )}”${quote.speaker ? ` — ${escapeHtml(quote.speaker)}` : ""}</p>
+    `
+      )
+      .join("")}`);
+  }
+
+  if (summary.entities?.length) {
+    sections.push(`
+    <p style="margin: 0 0 10px 0; font-weight: bold;">Mentioned</p>
+    <p style="margin: 0;">${summary.entities
+      .map((entity) =>
+        entity.url
+          ? `<a href="${escapeHtml(
+              entity.url
+            )}" style="color: #0066cc;">${escapeHtml(entity.name)}</a>`
+          : escapeHtml(entity.name)
+      )
+      .join(", ")}</p>`);
+  }
+
+  if (summary.tags?.length || summary.tone) {
+    sections.push(`
+    <p style="color: #666666; font-size: 12px; margin: 0;">${[
+      summary.tags?.map((tag) => `#${tag}`).join(" "),
+      summary.tone &&
+        [summary.tone.sentiment, ...summary.tone.labels].join(", "),
+    ]
+      .filter((text): text is string => Boolean(text))
+      .map(escapeHtml)
+      .join(" · ")}</p>`);
+  }
+
+  return sections
+    .map(
+      (section) => `
+  <div style="margin: 35px 0; padding: 0;">${section}
+  </div>`
+    )
+    .join("");
+}
+
 export function generateEmailTemplate({
   videoTitle,
   channelName,
@@ -35,17 +120,19 @@ export function generateEmailTemplate({
 <html>
 <head>
   <meta charset="utf-8">
-  <title>New Video from ${channelName}</title>
+  <title>New Video from ${escapeHtml(channelName)}</title>
 </head>
 <body style="font-family: Arial, Helvetica, sans-serif; line-height: 1.6; color: #1a1a1a; max-width: 600px; margin: 0; padding: 20px;">
-  <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 20px; font-weight: bold;">${videoTitle}</h1>
+  <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 20px; font-weight: bold;">${escapeHtml(
+    videoTitle
+  )}</h1>
   <p style="color: #666666; font-size: 12px; margin: 20px 0;">${publishDate}</p>
   
   ${
     summary
       ? `
   <div style="margin: 35px 0; padding: 0;">
-    <p style="margin: 0 0 20px 0;">${summary.briefSummary}</p>
+    <p style="margin: 0 0 20px 0;">${escapeHtml(summary.briefSummary ?? "")}</p>
     ${
       summary.keyPoints
         ? `
@@ -53,7 +140,7 @@ export function generateEmailTemplate({
       ${summary.keyPoints
         .map(
           (point) => `
-        <p>• ${point}</p>
+        <p>• ${escapeHtml(point)}</p>
       `
         )
         .join("")}
@@ -62,6 +149,7 @@ export function generateEmailTemplate({
         : ""
     }
   </div>
+  ${generateInsightsSection(videoId, summary)}
   `
       : ""
   }
@@ -70,7 +158,7 @@ export function generateEmailTemplate({
     showTranscript && captions?.transcript
       ? `
   <div style="margin: 35px 0; padding: 0;">
-    <p style="margin: 0;">${captions.transcript}</p>
+    <p style="margin: 0;">${escapeHtml(captions.transcript)}</p>
   </div>
   `
       : ""
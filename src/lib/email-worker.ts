@@ -2,7 +2,11 @@ import { Resend } from "resend";
 import { supabaseServicePublic } from "@/lib/supabase";
 import { logger } from "@/lib/logger";
 import { incrementSubscriptionUsage } from "@/lib/supabase";
+import { incrementPersonalizedSummaryUsage } from "@/lib/supabase";
 import { handleSubscriptionAlert } from "@/lib/supabase";
+import { countPendingNotifications } from "@/lib/supabase";
+import { WorkerHeartbeat } from "@/lib/worker-heartbeat";
+import { sleep } from "@/lib/concurrency";
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -10,19 +14,29 @@ export class EmailWorker {
   public isRunning: boolean = false;
   private supabasePublic = supabaseServicePublic;
   private isProcessing = false;
+  private stopController = new AbortController();
   private readonly POLLING_INTERVAL = 5000; // 5 seconds
+  private heartbeat = new WorkerHeartbeat(
+    "email",
+    this.POLLING_INTERVAL / 1000,
+    async () => ({ pending_notifications: await countPendingNotifications() })
+  );
 
   async start() {
+    this.isRunning = true;
+    this.stopController = new AbortController();
     logger.info("🚀 Starting email worker", {
       prefix: "Email Worker",
     });
 
-    while (true) {
-      if (!this.isProcessing) {
+    while (this.isRunning) {
+      const isPaused = await this.heartbeat.beat();
+      if (!this.isProcessing && !isPaused) {
         try {
           this.isProcessing = true;
           await this.processEmails();
         } catch (error) {
+          this.heartbeat.recordError();
           logger.error("❌ Error in email worker loop", {
             prefix: "Email Worker",
             data: { error },
@@ -31,14 +45,13 @@ export class EmailWorker {
           this.isProcessing = false;
         }
       }
-      await new Promise((resolve) =>
-        setTimeout(resolve, this.POLLING_INTERVAL)
-      );
+      await sleep(this.POLLING_INTERVAL, this.stopController.signal);
     }
   }
 
   stop() {
     this.isRunning = false;
+    this.stopController.abort();
     logger.info("🛑 Stopping email worker", { prefix: "Email Worker" });
   }
 
@@ -96,6 +109,9 @@ export class EmailWorker {
 
         // Update usage count
         await incrementSubscriptionUsage(notification.profile_id);
+        if (notification.personalized) {
+          await incrementPersonalizedSummaryUsage(notification.profile_id);
+        }
 
         // Check if limit reached and send alert if needed
         await handleSubscriptionAlert(notification.profile_id);
@@ -120,11 +136,13 @@ export class EmailWorker {
           continue;
         }
 
+        this.heartbeat.recordProcessed();
         logger.info(`✅ Email sent successfully to ${toEmail}`, {
           prefix: "Email Worker",
           data: { toEmail, notificationId: notification.id },
         });
       } catch (error) {
+        this.heartbeat.recordError();
         logger.error(`❌ Failed to process notification ${notification.id}:`, {
           prefix: "Email Worker",
           data: {
@@ -238,6 +256,78 @@ export class EmailWorker {
     }
   }
 
+  private async processRetitleNotes() {
+    const { data: notes, error: fetchError } = await this.supabasePublic
+      .from("notification_retitle_emails")
+      .select("*, profiles(email)")
+      .eq("status", "pending")
+      .limit(10);
+
+    if (fetchError) {
+      logger.error("❌ Failed to fetch retitle notes", {
+        prefix: "Email Worker",
+        data: { error: fetchError },
+      });
+      throw fetchError;
+    }
+
+    if (!notes?.length) return;
+
+    for (const note of notes) {
+      try {
+        const toEmail = note.profiles.email;
+        if (!toEmail) {
+          logger.warn("⚠️ No email found for profile", {
+            prefix: "Email Worker",
+            data: { profileId: note.profile_id },
+          });
+          continue;
+        }
+
+        await resend.emails.send({
+          from: "TuberBrief Notifier <info@huudle.io>",
+          to: toEmail,
+          subject: `Video Retitled: ${note.new_title}`,
+          html: note.email_content,
+          text: note.email_content.replace(/<[^>]*>/g, ""),
+        });
+
+        const { error: updateError } = await this.supabasePublic
+          .from("notification_retitle_emails")
+          .update({
+            status: "sent",
+            sent_at: new Date().toISOString(),
+          })
+          .eq("id", note.id);
+
+        if (updateError) {
+          logger.error("❌ Failed to update retitle note status", {
+            prefix: "Email Worker",
+            data: { error: updateError, noteId: note.id },
+          });
+        }
+
+        logger.info("✅ Retitle note sent", {
+          prefix: "Email Worker",
+          data: { noteId: note.id, videoId: note.video_id, toEmail },
+        });
+      } catch (error) {
+        logger.error("❌ Failed to process retitle note", {
+          prefix: "Email Worker",
+          data: {
+            error: error instanceof Error ? error.message : "Unknown error",
+            noteId: note.id,
+          },
+        });
+
+        await this.supabasePublic
+          .from("notification_retitle_emails")
+          .update({ status: "failed" })
+          .eq("id", note.id);
+      }
+    }
+  }
+
   async processEmails() {
     try {
       logger.info("🔄 Starting email processing cycle", {
@@ -248,6 +338,8 @@ export class EmailWorker {
       await this.processEmailNotifications();
       // Process limit alert notifications
       await this.processLimitAlerts();
+      // Process opt-in retitle notes
+      await this.processRetitleNotes();
 
       logger.info("✅ Completed email processing cycle", {
         prefix: "Email Worker",
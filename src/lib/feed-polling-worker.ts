@@ -0,0 +1,260 @@
+import {
+  getChannelsDueForFeedPoll,
+  registerVideo,
+  unregisterVideo,
+  updateChannelFeedPoll,
+} from "@/lib/supabase";
+import { fetchChannelFeedById, FeedVideo } from "@/lib/youtube-feed";
+import { internalFetch } from "@/lib/utils";
+import {
+  FeedPollChannel,
+  FeedPollUpdate,
+  VideoRegistration,
+} from "@/lib/types";
+import { WorkerHeartbeat } from "@/lib/worker-heartbeat";
+import { sleep } from "@/lib/concurrency";
+import { logger } from "@/lib/logger";
+
+const POLLING_INTERVAL = 300000; // Look for due channels every 5 minutes
+const POLL_BATCH_SIZE = 25;
+const MIN_POLL_INTERVAL_MINUTES = 30;
+const MAX_POLL_INTERVAL_MINUTES = 24 * 60;
+const DEFAULT_POLL_INTERVAL_MINUTES = 6 * 60;
+
+/**
+ * Picks a polling interval from the gaps between recent uploads:
+ * frequent uploaders are polled often, dormant channels rarely.
+ */
+export function getPollIntervalMinutes(videos: FeedVideo[]): number {
+  const publishedTimes = videos
+    .map((video) => new Date(video.published).getTime())
+    .filter((time) => !Number.isNaN(time))
+    .sort((a, b) => b - a);
+
+  if (publishedTimes.length < 2) {
+    return DEFAULT_POLL_INTERVAL_MINUTES;
+  }
+
+  const span = publishedTimes[0] - publishedTimes[publishedTimes.length - 1];
+  const averageGapMinutes = span / (publishedTimes.length - 1) / 60000;
+
+  // Aim for a few polls between typical uploads
+  return Math.round(
+    Math.min(
+      MAX_POLL_INTERVAL_MINUTES,
+      Math.max(MIN_POLL_INTERVAL_MINUTES, averageGapMinutes / 4)
+    )
+  );
+}
+
+/**
+ * Feed videos published after the channel's last known upload
+ * @returns Newest first, like the feed
+ */
+export function findMissedVideos(
+  videos: FeedVideo[],
+  channel: { last_video_id: string | null; last_video_date: string | null }
+): FeedVideo[] {
+  // Without a baseline the feed only seeds it, we don't replay old uploads
+  if (!channel.last_video_date) return [];
+
+  const lastVideoTime = new Date(channel.last_video_date).getTime();
+  return videos.filter(
+    (video) =>
+      video.videoId !== channel.last_video_id &&
+      new Date(video.published).getTime() > lastVideoTime
+  );
+}
+
+/**
+ * Where the poller finds due channels, dedupes uploads and queues them.
+ * Supabase and the queue route back it by default.
+ */
+export interface FeedPollingStore {
+  getChannelsDueForFeedPoll(limit: number): Promise<FeedPollChannel[]>;
+  registerVideo(video: FeedVideo): Promise<VideoRegistration>;
+  unregisterVideo(videoId: string): Promise<void>;
+  enqueueVideo(video: FeedVideo): Promise<void>;
+  updateChannelFeedPoll(
+    channelId: string,
+    update: FeedPollUpdate
+  ): Promise<void>;
+}
+
+export const defaultFeedPollingStore: FeedPollingStore = {
+  getChannelsDueForFeedPoll,
+  registerVideo,
+  unregisterVideo,
+  async enqueueVideo(video) {
+    const queueResponse = await internalFetch("/api/youtube/queue", {
+      method: "POST",
+      body: JSON.stringify({
+        videoId: video.videoId,
+        channelId: video.channelId,
+        title: video.title,
+        authorName: video.authorName,
+        published: video.published,
+        updated: video.updated,
+      }),
+    });
+
+    if (!queueResponse.ok) {
+      throw new Error(`Failed to queue missed video ${video.videoId}`);
+    }
+  },
+  updateChannelFeedPoll,
+};
+
+export class FeedPollingWorker {
+  public isRunning: boolean = false;
+  private stopController = new AbortController();
+  private heartbeat = new WorkerHeartbeat("feed", POLLING_INTERVAL / 1000);
+
+  constructor(private store: FeedPollingStore = defaultFeedPollingStore) {}
+
+  async start() {
+    this.isRunning = true;
+    this.stopController = new AbortController();
+    logger.info("🔄 Starting feed polling worker", {
+      prefix: "Feed Poller",
+    });
+
+    while (this.isRunning) {
+      try {
+        if (!(await this.heartbeat.beat())) {
+          await this.processDueChannels();
+        }
+      } catch (error) {
+        logger.error("💥 Feed polling worker error:", {
+          prefix: "Feed Poller",
+          data: {
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        });
+      } finally {
+        // A failed round waits too, instead of hitting the feeds in a loop
+        await sleep(POLLING_INTERVAL, this.stopController.signal);
+      }
+    }
+  }
+
+  stop() {
+    this.isRunning = false;
+    this.stopController.abort();
+    logger.info("🛑 Stopping feed polling worker", {
+      prefix: "Feed Poller",
+    });
+  }
+
+  private async processDueChannels() {
+    try {
+      const channels = await this.store.getChannelsDueForFeedPoll(
+        POLL_BATCH_SIZE
+      );
+      if (!channels.length) {
+        logger.debug("✨ No channel feeds due for polling", {
+          prefix: "Feed Poller",
+        });
+        return;
+      }
+
+      logger.info(`📡 Polling ${channels.length} channel feeds`, {
+        prefix: "Feed Poller",
+        data: { batchSize: channels.length },
+      });
+
+      for (const channel of channels) {
+        try {
+          await this.pollChannel(channel);
+          this.heartbeat.recordProcessed();
+        } catch (channelError) {
+          this.heartbeat.recordError();
+          logger.error(`❌ Failed to poll feed for ${channel.id}`, {
+            prefix: "Feed Poller",
+            data: {
+              channelId: channel.id,
+              error:
+                channelError instanceof Error
+                  ? channelError.message
+                  : "Unknown error",
+            },
+          });
+
+          // Back off so a broken feed doesn't block the batch. The update
+          // logs its own failure, the channel is then simply due again.
+          await this.store
+            .updateChannelFeedPoll(channel.id, {
+              next_feed_poll_at: new Date(
+                Date.now() + DEFAULT_POLL_INTERVAL_MINUTES * 60000
+              ).toISOString(),
+            })
+            .catch(() => undefined);
+        }
+      }
+    } catch (error) {
+      this.heartbeat.recordError();
+      logger.error("💥 Feed polling error:", {
+        prefix: "Feed Poller",
+        data: {
+          error: error instanceof Error ? error.message : "Unknown error",
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+      });
+    }
+  }
+
+  /**
+   * Queues the uploads the hub missed since the channel's last known video
+   * and schedules the next poll
+   */
+  async pollChannel(channel: FeedPollChannel) {
+    const { videos } = await fetchChannelFeedById(channel.id);
+    const lastVideoTime = channel.last_video_date
+      ? new Date(channel.last_video_date).getTime()
+      : null;
+    const missedCandidates = findMissedVideos(videos, channel);
+
+    let enqueued = 0;
+    // Oldest first, so the queue sees uploads in order
+    for (const video of [...missedCandidates].reverse()) {
+      // The registry dedupes against uploads the hub already pushed
+      const registration = await this.store.registerVideo(video);
+      if (!registration.isNew) continue;
+
+      try {
+        await this.store.enqueueVideo(video);
+      } catch (error) {
+        await this.store.unregisterVideo(video.videoId);
+        throw error;
+      }
+      enqueued++;
+    }
+
+    const intervalMinutes = getPollIntervalMinutes(videos);
+    const latestVideo = videos[0];
+    await this.store.updateChannelFeedPoll(channel.id, {
+      ...(latestVideo &&
+        (lastVideoTime === null ||
+          new Date(latestVideo.published).getTime() >= lastVideoTime) && {
+          last_video_id: latestVideo.videoId,
+          last_video_date: latestVideo.published,
+        }),
+      feed_poll_interval_minutes: intervalMinutes,
+      last_feed_poll_at: new Date().toISOString(),
+      next_feed_poll_at: new Date(
+        Date.now() + intervalMinutes * 60000
+      ).toISOString(),
+    });
+
+    logger.info(`✅ Polled feed for ${channel.id}`, {
+      prefix: "Feed Poller",
+      data: {
+        channelId: channel.id,
+        feedVideos: videos.length,
+        missed: missedCandidates.length,
+        enqueued,
+        intervalMinutes,
+      },
+    });
+  }
+}
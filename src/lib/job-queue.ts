@@ -0,0 +1,65 @@
+import { QueueJob } from "@/lib/types";
+import { PgmqJobQueue } from "@/lib/pgmq-job-queue";
+import { MemoryJobQueue } from "@/lib/memory-job-queue";
+
+export interface ReadOptions {
+  limit: number;
+  // Read jobs stay hidden from other readers for this long
+  visibilityTimeoutSeconds: number;
+}
+
+/**
+ * At-least-once job queue. A read job is hidden until it is acked, nacked
+ * or its visibility timeout runs out, after which it is read again.
+ */
+export interface JobQueue {
+  /**
+   * @param delaySeconds - Keeps the job hidden for this long
+   * @returns ID of the new job
+   */
+  send<T>(
+    queueName: string,
+    message: T,
+    delaySeconds?: number
+  ): Promise<number>;
+  read<T>(queueName: string, options: ReadOptions): Promise<QueueJob<T>[]>;
+  /**
+   * Removes a finished job
+   * @returns Whether the job still existed
+   */
+  ack(queueName: string, jobId: number): Promise<boolean>;
+  /**
+   * Hands a failed job back for another attempt after a delay
+   */
+  nack(queueName: string, jobId: number, delaySeconds: number): Promise<void>;
+  /**
+   * Moves a job that used up its attempts to the queue's dead-letter queue
+   */
+  deadLetter<T>(
+    queueName: string,
+    job: QueueJob<T>,
+    lastError: string
+  ): Promise<void>;
+  /**
+   * Number of jobs waiting in each queue, hidden ones included
+   */
+  getDepths(): Promise<Record<string, number>>;
+}
+
+let defaultQueue: JobQueue | null = null;
+
+/**
+ * Returns the process-wide queue picked by `JOB_QUEUE_DRIVER`: `pgmq` (the
+ * default) or `memory`. The memory queue lives in this process only, so it
+ * is a single-process development aid: the Next.js routes and `yarn worker`
+ * never see each other's jobs, and the stages still need Supabase.
+ */
+export function getJobQueue(): JobQueue {
+  if (!defaultQueue) {
+    defaultQueue =
+      process.env.JOB_QUEUE_DRIVER === "memory"
+        ? new MemoryJobQueue()
+        : new PgmqJobQueue();
+  }
+  return defaultQueue;
+}
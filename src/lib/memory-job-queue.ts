@@ -0,0 +1,106 @@
+import { QueueJob } from "@/lib/types";
+import { JobQueue, ReadOptions } from "@/lib/job-queue";
+import {
+  createDeadLetter,
+  getDeadLetterQueueName,
+} from "@/lib/dead-letter-queue";
+
+interface StoredJob extends QueueJob<unknown> {
+  visibleAt: number;
+}
+
+/**
+ * Keeps jobs in process memory with the same visibility semantics as
+ * PGMQ, for tests and single-process local runs. Jobs are lost when the
+ * process exits. Pair it with a `MemoryWorkerStore` and a
+ * `MemoryPipelineStore` to run stages without Supabase.
+ */
+export class MemoryJobQueue implements JobQueue {
+  private queues = new Map<string, StoredJob[]>();
+  private nextId = 1;
+
+  async send<T>(
+    queueName: string,
+    message: T,
+    delaySeconds: number = 0
+  ): Promise<number> {
+    const id = this.nextId++;
+    this.getQueue(queueName).push({
+      id,
+      attempts: 0,
+      enqueuedAt: new Date().toISOString(),
+      visibleAt: Date.now() + delaySeconds * 1000,
+      message,
+    });
+    return id;
+  }
+
+  async read<T>(
+    queueName: string,
+    { limit, visibilityTimeoutSeconds }: ReadOptions
+  ): Promise<QueueJob<T>[]> {
+    const now = Date.now();
+    const jobs = this.getQueue(queueName)
+      .filter((job) => job.visibleAt <= now)
+      .slice(0, limit);
+
+    return jobs.map((job) => {
+      job.attempts++;
+      job.visibleAt = now + visibilityTimeoutSeconds * 1000;
+      return {
+        id: job.id,
+        attempts: job.attempts,
+        enqueuedAt: job.enqueuedAt,
+        message: job.message as T,
+      };
+    });
+  }
+
+  async ack(queueName: string, jobId: number): Promise<boolean> {
+    const queue = this.getQueue(queueName);
+    const index = queue.findIndex((job) => job.id === jobId);
+    if (index === -1) return false;
+
+    queue.splice(index, 1);
+    return true;
+  }
+
+  async nack(
+    queueName: string,
+    jobId: number,
+    delaySeconds: number
+  ): Promise<void> {
+    const job = this.getQueue(queueName).find((job) => job.id === jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found in ${queueName}`);
+    }
+    job.visibleAt = Date.now() + delaySeconds * 1000;
+  }
+
+  async deadLetter<T>(
+    queueName: string,
+    job: QueueJob<T>,
+    lastError: string
+  ): Promise<void> {
+    await this.send(
+      getDeadLetterQueueName(queueName),
+      createDeadLetter(queueName, job, lastError)
+    );
+    await this.ack(queueName, job.id);
+  }
+
+  async getDepths(): Promise<Record<string, number>> {
+    return Object.fromEntries(
+      Array.from(this.queues, ([queueName, jobs]) => [queueName, jobs.length])
+    );
+  }
+
+  private getQueue(queueName: string): StoredJob[] {
+    let queue = this.queues.get(queueName);
+    if (!queue) {
+      queue = [];
+      this.queues.set(queueName, queue);
+    }
+    return queue;
+  }
+}
@@ -2,6 +2,7 @@ import { supabaseAnon } from "@/lib/supabase";
 import { logger } from "@/lib/logger";
 import { checkAndRecordAlert } from "@/lib/supabase";
 import { AlertType, Plan, Profile } from "@/lib/types";
+import { escapeHtml } from "@/lib/email-template";
 
 export async function queueLimitAlert(
   profileId: string,
@@ -119,6 +120,69 @@ function generateLimitAlertEmail(
   }
 }
 
+export async function queueRetitleNotes(
+  videoId: string,
+  channelId: string,
+  oldTitle: string | null,
+  newTitle: string
+) {
+  try {
+    // Only profiles that opted in and already received the original email
+    const { data: recipients, error: fetchError } = await supabaseAnon
+      .from("notification_emails")
+      .select("profile_id, profiles!inner(notify_on_retitle)")
+      .eq("video_id", videoId)
+      .eq("channel_id", channelId)
+      .eq("status", "sent")
+      .eq("profiles.notify_on_retitle", true);
+
+    if (fetchError) throw fetchError;
+    if (!recipients?.length) {
+      logger.info("⏭️ No opted-in recipients for retitle note", {
+        prefix: "Notifications",
+        data: { videoId },
+      });
+      return;
+    }
+
+    const emailContent = `
+      <p>A video you were notified about has been retitled.</p>
+      ${oldTitle ? `<p>Previous title: ${escapeHtml(oldTitle)}</p>` : ""}
+      <p>New title: ${escapeHtml(newTitle)}</p>
+      <p><a href="https://youtube.com/watch?v=${videoId}">Watch on YouTube</a></p>
+      <p>Thanks for using TuberBrief!</p>
+    `;
+
+    const { error: insertError } = await supabaseAnon
+      .from("notification_retitle_emails")
+      .insert(
+        recipients.map((recipient) => ({
+          profile_id: recipient.profile_id,
+          video_id: videoId,
+          old_title: oldTitle,
+          new_title: newTitle,
+          email_content: emailContent,
+          status: "pending",
+        }))
+      );
+
+    if (insertError) throw insertError;
+
+    logger.info("✏️ Retitle notes queued", {
+      prefix: "Notifications",
+      data: { videoId, recipients: recipients.length },
+    });
+  } catch (error) {
+    logger.error("Failed to queue retitle notes", {
+      prefix: "Notifications",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+        videoId,
+      },
+    });
+  }
+}
+
 export async function sendPlanChangeEmail(
   profileId: string,
   oldPlan: string,
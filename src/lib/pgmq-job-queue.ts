@@ -0,0 +1,124 @@
+import { getQueueDepths, supabaseServicePGMQPublic } from "@/lib/supabase";
+import { PGMQMessage, QueueJob } from "@/lib/types";
+import { JobQueue, ReadOptions } from "@/lib/job-queue";
+import {
+  createDeadLetter,
+  getDeadLetterQueueName,
+} from "@/lib/dead-letter-queue";
+import { logger } from "@/lib/logger";
+
+// 🚨 CRITICAL WARNING!!! DO NOT DELETE THIS COMMENT 🚨
+// ISSUE: Queue works initially but then STOPS with the following error:
+/*
+permission denied for sequence q_youtube_data_queue_msg_id_seq
+{
+  code: '42501',
+  details: null,
+  hint: null,
+  message: 'permission denied for sequence q_youtube_data_queue_msg_id_seq'
+}
+*/
+// FIX: Run the following command in the Supabase console to resolve it:
+// GRANT USAGE, SELECT, UPDATE ON ALL SEQUENCES IN SCHEMA pgmq TO service_role;
+
+/**
+ * Supabase PGMQ queues through the `pgmq_public` RPCs
+ */
+export class PgmqJobQueue implements JobQueue {
+  private supabasePGMQ = supabaseServicePGMQPublic(
+    process.env.NEXT_PUBLIC_SUPABASE_URL as string,
+    process.env.SUPABASE_SERVICE_ROLE_KEY as string
+  );
+
+  async send<T>(
+    queueName: string,
+    message: T,
+    delaySeconds: number = 0
+  ): Promise<number> {
+    const { data, error } = await this.supabasePGMQ.rpc("send", {
+      queue_name: queueName,
+      message,
+      sleep_seconds: delaySeconds,
+    });
+
+    if (error) {
+      logger.error("❌ Failed to send message", {
+        prefix: "PGMQ",
+        data: { error: error.message, queueName },
+      });
+      throw error;
+    }
+
+    // send returns the new message ID as a single-element array
+    return Array.isArray(data) ? data[0] : data;
+  }
+
+  async read<T>(
+    queueName: string,
+    { limit, visibilityTimeoutSeconds }: ReadOptions
+  ): Promise<QueueJob<T>[]> {
+    const { data, error } = await this.supabasePGMQ.rpc("read", {
+      queue_name: queueName,
+      sleep_seconds: visibilityTimeoutSeconds,
+      n: limit,
+    });
+
+    if (error) {
+      throw new Error(`Queue read error: ${error.message}`);
+    }
+
+    return ((data || []) as PGMQMessage<T>[]).map((queueMessage) => ({
+      id: queueMessage.msg_id,
+      attempts: queueMessage.read_ct,
+      enqueuedAt: queueMessage.enqueued_at,
+      message: queueMessage.message,
+    }));
+  }
+
+  async ack(queueName: string, jobId: number): Promise<boolean> {
+    const { data, error } = await this.supabasePGMQ.rpc("delete", {
+      queue_name: queueName,
+      msg_id: jobId,
+    });
+
+    if (error) {
+      logger.error("❌ Failed to delete message", {
+        prefix: "PGMQ",
+        data: { error: error.message, queueName, msgId: jobId },
+      });
+      throw error;
+    }
+
+    return Boolean(data);
+  }
+
+  async nack(
+    queueName: string,
+    jobId: number,
+    delaySeconds: number
+  ): Promise<void> {
+    const { error } = await this.supabasePGMQ.rpc("set_vt", {
+      queue_name: queueName,
+      msg_id: jobId,
+      vt: delaySeconds,
+    });
+
+    if (error) throw error;
+  }
+
+  async deadLetter<T>(
+    queueName: string,
+    job: QueueJob<T>,
+    lastError: string
+  ): Promise<void> {
+    await this.send(
+      getDeadLetterQueueName(queueName),
+      createDeadLetter(queueName, job, lastError)
+    );
+    await this.ack(queueName, job.id);
+  }
+
+  async getDepths(): Promise<Record<string, number>> {
+    return getQueueDepths();
+  }
+}
@@ -0,0 +1,962 @@
+import {
+  YouTubeQueueMessage,
+  Video,
+  VideoAvailability,
+  VideoType,
+  SubscriberLanguagePreference,
+  CaptionData,
+  VideoAIContent,
+  AIContentFeature,
+  NewEmailNotification,
+  SummaryPersonalization,
+} from "@/lib/types";
+import { fetchVideoCaptions } from "@/lib/captions";
+import { fetchVideoDetails } from "@/lib/youtube-video";
+import {
+  isSpeechToTextEnabled,
+  transcribeVideoAudio,
+} from "@/lib/speech-to-text";
+import { getSegmentsDuration } from "@/lib/transcript-segments";
+import { generateEmailTemplate } from "@/lib/email-template";
+import {
+  generateVideoInsights,
+  generateVideoSummary,
+  getFocusHash,
+  pickInsights,
+} from "@/lib/ai-processor";
+import { getSummaryProvider } from "@/lib/summary-providers";
+import { SummaryOutputError } from "@/lib/summary-errors";
+import { managePubSubHubbub } from "@/lib/pubsub";
+import { QueueStageWorker, StageDeferral } from "@/lib/queue-stage-worker";
+import { JobQueue } from "@/lib/job-queue";
+import { PipelineStore, supabasePipelineStore } from "@/lib/pipeline-store";
+import { WorkerStore } from "@/lib/worker-store";
+import { getPositiveIntEnv } from "@/lib/concurrency";
+import { logger } from "@/lib/logger";
+
+// Each stage hands the same message on to the next one's queue
+export const PIPELINE_QUEUES = {
+  ingest: "youtube_data_queue",
+  transcript: "youtube_transcript_queue",
+  summarize: "youtube_summary_queue",
+  render: "youtube_render_queue",
+  fanout: "youtube_fanout_queue",
+  transcribe: "youtube_transcribe_queue",
+} as const;
+
+const BATCH_SIZE = getPositiveIntEnv("QUEUE_BATCH_SIZE", 10);
+const MESSAGE_CONCURRENCY = getPositiveIntEnv("QUEUE_CONCURRENCY", 5);
+const CAPTION_CONCURRENCY = getPositiveIntEnv("QUEUE_CAPTION_CONCURRENCY", 2);
+const AI_CONCURRENCY = getPositiveIntEnv("QUEUE_AI_CONCURRENCY", 2);
+const TRANSCRIBE_CONCURRENCY = getPositiveIntEnv(
+  "QUEUE_TRANSCRIBE_CONCURRENCY",
+  1
+);
+
+// Videos without captions are re-checked after 15m, 30m, 1h... up to 6h
+const DEFERRAL_BASE_DELAY_SECONDS = 15 * 60;
+const DEFERRAL_MAX_DELAY_SECONDS = 6 * 60 * 60;
+const MAX_DEFERRALS = 10; // About a day and a half of waiting
+// Captions usually show up within two hours of an upload
+const TRANSCRIBE_AFTER_DEFERRALS = 3;
+
+/**
+ * A backfill only reaches its target profile, so it is separate work
+ * from the regular run for the same video
+ */
+function getVideoJobKey(message: YouTubeQueueMessage): string {
+  return message.targetProfileId
+    ? `${message.videoId}:${message.targetProfileId}`
+    : message.videoId;
+}
+
+/**
+ * Caption languages subscribers prefer, the most wanted first
+ */
+function rankCaptionLanguages(
+  preferences: SubscriberLanguagePreference[]
+): string[] {
+  const counts = new Map<string, number>();
+  for (const { captionLanguage } of preferences) {
+    if (captionLanguage) {
+      counts.set(captionLanguage, (counts.get(captionLanguage) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.keys()).sort(
+    (a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0)
+  );
+}
+
+/**
+ * Every language a subscriber wants the summary in; subscribers without
+ * a preference get it in the language of the captions
+ */
+function getSummaryLanguages(
+  preferences: SubscriberLanguagePreference[],
+  captionLanguage: string
+): string[] {
+  const languages = new Set(
+    preferences.map(({ summaryLanguage }) => summaryLanguage ?? captionLanguage)
+  );
+  return languages.size > 0 ? Array.from(languages) : [captionLanguage];
+}
+
+/**
+ * Summary language a subscriber gets; one picked after summarizing falls
+ * back to the first summarized language
+ */
+function getSubscriberLanguage(
+  summaryLanguage: string | null,
+  captionLanguage: string,
+  languages: string[]
+): string {
+  const language = summaryLanguage ?? captionLanguage;
+  return languages.includes(language) ? language : languages[0];
+}
+
+/**
+ * Deleted videos are dropped by every stage that does paid work, even
+ * when the deletion arrived after the video was queued
+ */
+async function isDeletedVideo(
+  data: PipelineStore,
+  message: YouTubeQueueMessage,
+  logPrefix: string
+): Promise<boolean> {
+  if (!(await data.isVideoDeleted(message.videoId))) return false;
+
+  logger.info("🗑️ Skipping processing - video was deleted", {
+    prefix: logPrefix,
+    data: { videoId: message.videoId },
+  });
+  return true;
+}
+
+/**
+ * Drops deleted videos and unfollowed channels, alerts subscribers who are
+ * over their plan limit, and skips video types nobody eligible wants,
+ * all before any paid work starts.
+ */
+export class IngestStageWorker extends QueueStageWorker<YouTubeQueueMessage> {
+  constructor(
+    queue: JobQueue,
+    private data: PipelineStore = supabasePipelineStore,
+    store?: WorkerStore
+  ) {
+    super(
+      {
+        stage: "ingest",
+        queueName: PIPELINE_QUEUES.ingest,
+        logPrefix: "Ingest",
+        batchSize: BATCH_SIZE,
+        concurrency: MESSAGE_CONCURRENCY,
+        visibilityTimeoutSeconds: 60,
+        maxAttempts: 5,
+        retryBaseDelaySeconds: 30,
+      },
+      queue,
+      store
+    );
+  }
+
+  protected async handle(message: YouTubeQueueMessage) {
+    if (!message.videoId || !message.channelId) {
+      logger.warn("🔍 Skipping processing - missing videoId or channelId", {
+        prefix: "Ingest",
+        data: { videoId: message.videoId, channelId: message.channelId },
+      });
+      return;
+    }
+
+    if (await isDeletedVideo(this.data, message, "Ingest")) return;
+
+    const followers = await this.data.getChannelSubscribers(message.channelId);
+    if (followers.length === 0) {
+      logger.info("ℹ️ Skipping processing - channel not subscribed", {
+        prefix: "Ingest",
+        data: { channelId: message.channelId },
+      });
+      await managePubSubHubbub({
+        channelId: message.channelId,
+        mode: "unsubscribe",
+      });
+      return;
+    }
+
+    // Check if any subscribers are within their plan limits
+    const eligibleProfileIds = await this.data.getEligibleProfileIds(
+      message.channelId
+    );
+
+    logger.info("Checking eligible profiles", {
+      prefix: "Ingest",
+      data: {
+        total: followers.length,
+        eligible: eligibleProfileIds.length,
+      },
+    });
+
+    if (followers.length > eligibleProfileIds.length) {
+      await this.data.checkAndAlertIneligibleProfiles(message.channelId);
+    }
+
+    // Nobody could receive the email, so skip captions and AI entirely
+    if (eligibleProfileIds.length === 0) {
+      logger.info("No eligible profiles found - skipping video", {
+        prefix: "Ingest",
+        data: { channelId: message.channelId, videoId: message.videoId },
+      });
+      return;
+    }
+
+    const videoType = await this.getVideoType(message.videoId);
+
+    // Only subscribers who include this type of video get an email
+    const wantedSubscribers = await this.data.getChannelSubscribers(
+      message.channelId,
+      { profileId: message.targetProfileId, videoType }
+    );
+    const wantedProfileIds = new Set(wantedSubscribers.map((s) => s.profileId));
+    if (!eligibleProfileIds.some((id) => wantedProfileIds.has(id))) {
+      logger.info(`No eligible profiles want ${videoType} videos - skipping`, {
+        prefix: "Ingest",
+        data: { videoId: message.videoId, videoType },
+      });
+      return;
+    }
+
+    await this.enqueue(PIPELINE_QUEUES.transcript, { ...message, videoType });
+  }
+
+  /**
+   * Detects the type once per video, later deliveries reuse the stored one
+   */
+  private async getVideoType(videoId: string): Promise<VideoType> {
+    const storedType = await this.data.getStoredVideoType(videoId);
+    if (storedType) return storedType;
+
+    const { type } = await fetchVideoDetails(videoId);
+    // Without a lookup the video is handled like any regular upload
+    if (!type) return "regular";
+
+    await this.data.storeVideoType(videoId, type);
+    return type;
+  }
+}
+
+/**
+ * Backs off between checks, or waits for a premiere's scheduled start
+ */
+function getDeferralDelaySeconds(
+  deferrals: number,
+  availability: VideoAvailability
+): number {
+  const backoff = Math.min(
+    DEFERRAL_MAX_DELAY_SECONDS,
+    DEFERRAL_BASE_DELAY_SECONDS * 2 ** deferrals
+  );
+  if (availability.status !== "upcoming" || !availability.scheduledStartAt) {
+    return backoff;
+  }
+
+  const untilStart =
+    (new Date(availability.scheduledStartAt).getTime() - Date.now()) / 1000;
+  return Math.max(
+    backoff,
+    Math.round(untilStart) + DEFERRAL_BASE_DELAY_SECONDS
+  );
+}
+
+/**
+ * Fetches captions once per video; stored captions are reused on retries.
+ * Premieres, live streams and fresh uploads have no captions yet, so they
+ * are deferred until the video is watchable and captioned. Videos that
+ * stay without captions can be handed to speech-to-text.
+ */
+export class TranscriptStageWorker extends QueueStageWorker<YouTubeQueueMessage> {
+  constructor(
+    queue: JobQueue,
+    private data: PipelineStore = supabasePipelineStore,
+    store?: WorkerStore
+  ) {
+    super(
+      {
+        stage: "transcript",
+        queueName: PIPELINE_QUEUES.transcript,
+        logPrefix: "Transcript",
+        batchSize: BATCH_SIZE,
+        concurrency: CAPTION_CONCURRENCY,
+        visibilityTimeoutSeconds: 180,
+        maxAttempts: 5,
+        retryBaseDelaySeconds: 60,
+        idempotencyKey: getVideoJobKey,
+      },
+      queue,
+      store
+    );
+  }
+
+  protected async handle(
+    message: YouTubeQueueMessage
+  ): Promise<StageDeferral<YouTubeQueueMessage> | void> {
+    if (await isDeletedVideo(this.data, message, "Transcript")) return;
+
+    if ((await this.data.getStoredCaptions(message.videoId))?.transcript) {
+      await this.enqueue(PIPELINE_QUEUES.summarize, message);
+      return;
+    }
+
+    const availability = await fetchVideoDetails(message.videoId);
+    if (availability.status === "ready") {
+      const preferences = await this.data.getSubscriberLanguagePreferences(
+        message.channelId,
+        message.targetProfileId
+      );
+      const captions = await fetchVideoCaptions(
+        message.videoId,
+        rankCaptionLanguages(preferences)
+      );
+
+      // Captions can still appear later, so an empty result isn't kept
+      if (captions.transcript) {
+        await this.data.storeCaptions(message.videoId, {
+          ...captions,
+          title: message.title,
+        });
+        await this.enqueue(PIPELINE_QUEUES.summarize, message);
+        return;
+      }
+
+      if (
+        (message.deferrals ?? 0) >= TRANSCRIBE_AFTER_DEFERRALS &&
+        (await this.canTranscribe(message, availability.durationSeconds))
+      ) {
+        await this.enqueue(PIPELINE_QUEUES.transcribe, message);
+        return;
+      }
+    }
+
+    const deferrals = message.deferrals ?? 0;
+    if (deferrals >= MAX_DEFERRALS) {
+      logger.warn("⌛ Gave up waiting for captions", {
+        prefix: "Transcript",
+        data: { videoId: message.videoId, status: availability.status },
+      });
+
+      // Notifications reference the captions row, even an empty one
+      await this.data.storeCaptions(message.videoId, {
+        transcript: "",
+        language: "",
+        title: message.title,
+        duration: 0,
+      });
+      await this.enqueue(PIPELINE_QUEUES.render, {
+        ...message,
+        withoutSummary: true,
+      });
+      return;
+    }
+
+    const delaySeconds = getDeferralDelaySeconds(deferrals, availability);
+    logger.info("⏳ Deferring video until it has captions", {
+      prefix: "Transcript",
+      data: {
+        videoId: message.videoId,
+        status: availability.status,
+        scheduledStartAt: availability.scheduledStartAt,
+        deferrals,
+        delaySeconds,
+      },
+    });
+
+    return {
+      message: { ...message, deferrals: deferrals + 1 },
+      delaySeconds,
+    };
+  }
+
+  /**
+   * Speech-to-text is opt-in and limited by the subscribers' plans
+   */
+  private async canTranscribe(
+    message: YouTubeQueueMessage,
+    durationSeconds: number | null
+  ): Promise<boolean> {
+    // The length is only known from the YouTube Data API
+    if (!isSpeechToTextEnabled() || !durationSeconds) return false;
+
+    const limitSeconds = await this.data.getTranscriptionLimitSeconds(
+      message.channelId,
+      message.targetProfileId
+    );
+    if (durationSeconds > limitSeconds) {
+      logger.info("⏱️ Video too long to transcribe for subscribers' plans", {
+        prefix: "Transcript",
+        data: { videoId: message.videoId, durationSeconds, limitSeconds },
+      });
+      return false;
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Transcribes the audio of videos that never got captions. Runs a local
+ * model on the CPU, so videos are taken one at a time and may hold their
+ * message for hours.
+ */
+export class TranscribeStageWorker extends QueueStageWorker<YouTubeQueueMessage> {
+  constructor(
+    queue: JobQueue,
+    private data: PipelineStore = supabasePipelineStore,
+    store?: WorkerStore
+  ) {
+    super(
+      {
+        stage: "transcribe",
+        queueName: PIPELINE_QUEUES.transcribe,
+        logPrefix: "Speech-to-text",
+        batchSize: 1,
+        concurrency: TRANSCRIBE_CONCURRENCY,
+        visibilityTimeoutSeconds: 3 * 60 * 60,
+        maxAttempts: 2,
+        retryBaseDelaySeconds: 600,
+        idempotencyKey: getVideoJobKey,
+      },
+      queue,
+      store
+    );
+  }
+
+  protected async handle(message: YouTubeQueueMessage) {
+    if (await isDeletedVideo(this.data, message, "Speech-to-text")) return;
+
+    // Captions may have appeared while the video waited for a free worker
+    if ((await this.data.getStoredCaptions(message.videoId))?.transcript) {
+      await this.enqueue(PIPELINE_QUEUES.summarize, message);
+      return;
+    }
+
+    const result = await transcribeVideoAudio(message.videoId);
+    await this.data.storeCaptions(message.videoId, {
+      transcript: result.transcript,
+      language: result.language,
+      title: message.title,
+      duration: getSegmentsDuration(result.segments),
+      provider: "whisper",
+      segments: result.segments,
+      machineTranscribed: true,
+    });
+
+    // Nothing was said, music videos for example
+    if (!result.transcript) {
+      await this.enqueue(PIPELINE_QUEUES.render, {
+        ...message,
+        withoutSummary: true,
+      });
+      return;
+    }
+
+    await this.enqueue(PIPELINE_QUEUES.summarize, message);
+  }
+}
+
+/**
+ * Generates the AI summary once per video and language. Retries back off
+ * longer here so a provider outage doesn't burn through attempts, while
+ * an invalid answer is retried soon since a new one is often fine.
+ */
+export class SummarizeStageWorker extends QueueStageWorker<YouTubeQueueMessage> {
+  constructor(
+    queue: JobQueue,
+    private data: PipelineStore = supabasePipelineStore,
+    store?: WorkerStore
+  ) {
+    super(
+      {
+        stage: "summarize",
+        queueName: PIPELINE_QUEUES.summarize,
+        logPrefix: "Summarize",
+        batchSize: BATCH_SIZE,
+        concurrency: AI_CONCURRENCY,
+        visibilityTimeoutSeconds: 300,
+        maxAttempts: 6,
+        retryBaseDelaySeconds: 120,
+        retryDelaySeconds: (error) =>
+          error instanceof SummaryOutputError ? 30 : undefined,
+        idempotencyKey: getVideoJobKey,
+      },
+      queue,
+      store
+    );
+  }
+
+  protected async handle(message: YouTubeQueueMessage) {
+    if (await isDeletedVideo(this.data, message, "Summarize")) return;
+
+    const captions = await this.data.getStoredCaptions(message.videoId);
+    if (!captions) {
+      throw new Error(`No stored captions for video ${message.videoId}`);
+    }
+
+    const summaryLanguages = getSummaryLanguages(
+      await this.data.getSubscriberLanguagePreferences(
+        message.channelId,
+        message.targetProfileId
+      ),
+      captions.language
+    );
+
+    const provider = getSummaryProvider(
+      await this.data.getPlanSummaryProvider(
+        message.channelId,
+        message.targetProfileId
+      )
+    );
+    const features = await this.data.getPlanAIContentFeatures(
+      message.channelId,
+      message.targetProfileId
+    );
+
+    const video = {
+      id: message.videoId,
+      title: message.title,
+      url: `https://youtube.com/watch?v=${message.videoId}`,
+    } as Video;
+
+    for (const language of summaryLanguages) {
+      // Summaries in another language than the captions are translated
+      const options = {
+        language,
+        sourceLanguage: captions.language,
+        segments: captions.segments,
+        provider,
+      };
+
+      if (await this.data.getStoredAIContent(message.videoId, language)) {
+        logger.info("📚 Using stored AI content", {
+          prefix: "Summarize",
+          data: { videoId: message.videoId, language },
+        });
+      } else {
+        const aiSummary = await generateVideoSummary(
+          video,
+          captions.transcript,
+          options
+        );
+        if (aiSummary) {
+          await this.data.storeAIContent(message.videoId, language, {
+            content: {
+              briefSummary: aiSummary.briefSummary,
+              keyPoints: aiSummary.keyPoints,
+            },
+            model: aiSummary.model,
+            provider: aiSummary.provider,
+          });
+        }
+      }
+
+      // Features a plan enabled since the video was last summarized are
+      // generated on their own
+      const stored = await this.data.getStoredInsights(
+        message.videoId,
+        language
+      );
+      const missingFeatures = features.filter(
+        (feature) => !stored.features.includes(feature)
+      );
+      if (missingFeatures.length === 0) continue;
+
+      const insights = await generateVideoInsights(video, captions.transcript, {
+        ...options,
+        features: missingFeatures,
+      });
+      if (insights) {
+        await this.data.storeInsights(
+          message.videoId,
+          language,
+          missingFeatures,
+          insights,
+          provider.model,
+          provider.name
+        );
+      }
+    }
+
+    // Subscribers who picked a style or focus share a variant with
+    // everyone who picked the same
+    const personalizations = await this.data.getSubscriberPersonalizations(
+      message.channelId,
+      message.targetProfileId
+    );
+    const variants = new Map(
+      personalizations.map((personalization) => {
+        const language = getSubscriberLanguage(
+          personalization.summaryLanguage,
+          captions.language,
+          summaryLanguages
+        );
+        const focusHash = getFocusHash(personalization.focus);
+        return [
+          `${language}:${personalization.style}:${focusHash}`,
+          { ...personalization, language, focusHash },
+        ];
+      })
+    );
+
+    for (const variant of Array.from(variants.values())) {
+      if (
+        await this.data.getStoredSummaryVariant(
+          message.videoId,
+          variant.language,
+          variant.style,
+          variant.focusHash
+        )
+      ) {
+        continue;
+      }
+
+      const aiSummary = await generateVideoSummary(video, captions.transcript, {
+        language: variant.language,
+        sourceLanguage: captions.language,
+        segments: captions.segments,
+        provider,
+        style: variant.style,
+        focus: variant.focus,
+      });
+      if (!aiSummary) continue;
+
+      await this.data.storeSummaryVariant(
+        message.videoId,
+        variant.language,
+        variant.style,
+        variant.focusHash,
+        {
+          content:
+            variant.style === "bullets"
+              ? { keyPoints: aiSummary.keyPoints }
+              : {
+                  briefSummary: aiSummary.briefSummary,
+                  keyPoints: aiSummary.keyPoints,
+                },
+          model: aiSummary.model,
+          provider: aiSummary.provider,
+        }
+      );
+    }
+
+    await this.enqueue(PIPELINE_QUEUES.render, {
+      ...message,
+      summaryLanguages,
+    });
+  }
+}
+
+/**
+ * Email body for a video, with the summary when there is one
+ */
+function renderVideoEmail(
+  message: YouTubeQueueMessage,
+  captions: CaptionData,
+  summary: VideoAIContent["content"] | undefined
+): string {
+  return generateEmailTemplate({
+    videoTitle: message.title,
+    channelName: message.authorName,
+    publishedAt: message.published,
+    videoId: message.videoId,
+    captions,
+    summary,
+    upgradeCTA: "Want more features? Upgrade your plan!",
+    showTranscript: true,
+    showUpgradeCTA: false,
+  });
+}
+
+/**
+ * Renders the email body shared by every subscriber of the video, once
+ * per summary language. It only has the summary; what plans add to it is
+ * rendered per subscriber at fan-out.
+ */
+export class RenderStageWorker extends QueueStageWorker<YouTubeQueueMessage> {
+  constructor(
+    queue: JobQueue,
+    private data: PipelineStore = supabasePipelineStore,
+    store?: WorkerStore
+  ) {
+    super(
+      {
+        stage: "render",
+        queueName: PIPELINE_QUEUES.render,
+        logPrefix: "Render",
+        batchSize: BATCH_SIZE,
+        concurrency: MESSAGE_CONCURRENCY,
+        visibilityTimeoutSeconds: 60,
+        maxAttempts: 3,
+        retryBaseDelaySeconds: 15,
+      },
+      queue,
+      store
+    );
+  }
+
+  protected async handle(message: YouTubeQueueMessage) {
+    const captions = await this.data.getStoredCaptions(message.videoId);
+    if (!captions) {
+      throw new Error(`No stored captions for video ${message.videoId}`);
+    }
+
+    // Videos that skipped summarizing get one email in the captions' language
+    const languages = message.summaryLanguages ?? [captions.language];
+    for (const language of languages) {
+      if (await this.data.getStoredEmailTemplate(message.videoId, language))
+        continue;
+
+      const aiContent = await this.data.getStoredAIContent(
+        message.videoId,
+        language
+      );
+      const emailContent = renderVideoEmail(
+        message,
+        captions,
+        aiContent?.content
+      );
+
+      await this.data.storeEmailTemplate(
+        message.videoId,
+        language,
+        emailContent
+      );
+    }
+
+    await this.enqueue(PIPELINE_QUEUES.fanout, message);
+  }
+}
+
+// An email rendered for some subscribers instead of the shared one
+interface SubscriberEmail {
+  emailContent: string;
+  personalized: boolean; // Counts against the personalized summary limit
+}
+
+/**
+ * Creates a pending notification for every eligible subscriber not yet
+ * notified about the video, with the AI content their own plan enables.
+ */
+export class FanoutStageWorker extends QueueStageWorker<YouTubeQueueMessage> {
+  constructor(
+    queue: JobQueue,
+    private data: PipelineStore = supabasePipelineStore,
+    store?: WorkerStore
+  ) {
+    super(
+      {
+        stage: "fanout",
+        queueName: PIPELINE_QUEUES.fanout,
+        logPrefix: "Fan-out",
+        batchSize: BATCH_SIZE,
+        concurrency: MESSAGE_CONCURRENCY,
+        visibilityTimeoutSeconds: 60,
+        maxAttempts: 5,
+        retryBaseDelaySeconds: 30,
+        idempotencyKey: getVideoJobKey,
+      },
+      queue,
+      store
+    );
+  }
+
+  protected async handle(message: YouTubeQueueMessage) {
+    // The video may have been deleted while captions and AI content were generated
+    if (await isDeletedVideo(this.data, message, "Fan-out")) return;
+
+    const captions = await this.data.getStoredCaptions(message.videoId);
+    if (!captions) {
+      throw new Error(`No stored captions for video ${message.videoId}`);
+    }
+
+    const languages = message.summaryLanguages ?? [captions.language];
+    const emailContents = new Map<string, string>();
+    for (const language of languages) {
+      const emailContent = await this.data.getStoredEmailTemplate(
+        message.videoId,
+        language
+      );
+      if (!emailContent) {
+        throw new Error(
+          `No rendered ${language} email for video ${message.videoId}`
+        );
+      }
+      emailContents.set(language, emailContent);
+    }
+
+    // Get subscribers for this channel, a backfill targets just one.
+    // A summary-less email only goes to those who asked for one
+    const subscribers = await this.data.getChannelSubscribers(
+      message.channelId,
+      {
+        profileId: message.targetProfileId,
+        videoType: message.videoType,
+        notifyWithoutSummary: message.withoutSummary,
+      }
+    );
+    if (!subscribers.length) {
+      logger.info("🔍 No subscribers found for channel", {
+        prefix: "Fan-out",
+        data: { channelId: message.channelId },
+      });
+      return;
+    }
+
+    // Filter out subscribers who already have notifications
+    const existingProfileIds = new Set(
+      await this.data.getNotifiedProfileIds(
+        message.videoId,
+        subscribers.map((s) => s.profileId)
+      )
+    );
+    const newSubscribers = subscribers.filter(
+      (sub) => !existingProfileIds.has(sub.profileId)
+    );
+    if (newSubscribers.length === 0) {
+      logger.info("🔍 All subscribers already notified", {
+        prefix: "Fan-out",
+        data: { channelId: message.channelId },
+      });
+      return;
+    }
+
+    // Only create notifications for profiles within their plan limits
+    const eligibleProfileIds = new Set(
+      await this.data.getEligibleProfileIds(message.channelId)
+    );
+    // Subscribers with a stored variant of their style and focus get it
+    // instead, while their plan has personalized summaries left. Chapters
+    // and the like only go to subscribers whose plan enables them.
+    const withSummary =
+      Boolean(message.summaryLanguages) && !message.withoutSummary;
+    const personalizations = new Map(
+      (withSummary
+        ? await this.data.getSubscriberPersonalizations(
+            message.channelId,
+            message.targetProfileId
+          )
+        : []
+      ).map((personalization) => [personalization.profileId, personalization])
+    );
+    const subscriberFeatures = new Map(
+      (withSummary
+        ? await this.data.getSubscriberAIContentFeatures(
+            message.channelId,
+            message.targetProfileId
+          )
+        : []
+      ).map(({ profileId, features }) => [profileId, features])
+    );
+    const subscriberEmails = new Map<string, SubscriberEmail | null>();
+
+    const notifications: NewEmailNotification[] = [];
+    for (const sub of newSubscribers) {
+      if (!eligibleProfileIds.has(sub.profileId)) continue;
+
+      const language = getSubscriberLanguage(
+        sub.summaryLanguage,
+        captions.language,
+        languages
+      );
+      const personalization = personalizations.get(sub.profileId);
+      const features = subscriberFeatures.get(sub.profileId) ?? [];
+      // Rendered once for everyone with the same summary and features
+      const key = [
+        language,
+        personalization?.style ?? "standard",
+        getFocusHash(personalization?.focus),
+        ...features,
+      ].join(":");
+      if (!subscriberEmails.has(key)) {
+        subscriberEmails.set(
+          key,
+          await this.renderSubscriberEmail(
+            message,
+            captions,
+            language,
+            personalization,
+            features
+          )
+        );
+      }
+      const subscriberEmail = subscriberEmails.get(key);
+      const emailContent =
+        subscriberEmail?.emailContent ??
+        (emailContents.get(language) as string);
+
+      notifications.push({
+        profile_id: sub.profileId,
+        channel_id: message.channelId,
+        video_id: message.videoId,
+        title: message.title,
+        email_content: emailContent.replace(/\n/g, ""),
+        personalized: Boolean(subscriberEmail?.personalized),
+        status: "pending",
+        created_at: new Date().toISOString(),
+      });
+    }
+
+    logger.info("📧 Creating notifications", {
+      prefix: "Fan-out",
+      data: {
+        total: subscribers.length,
+        new: notifications.length,
+        existing: existingProfileIds.size,
+      },
+    });
+    if (notifications.length === 0) return;
+
+    await this.data.createNotifications(notifications);
+
+    logger.info("✅ Successfully processed video", {
+      prefix: "Fan-out",
+      data: { videoId: message.videoId },
+    });
+  }
+
+  /**
+   * Email with the subscriber's summary variant and the AI content their
+   * plan enables
+   * @returns Null when the shared email already fits the subscriber
+   */
+  private async renderSubscriberEmail(
+    message: YouTubeQueueMessage,
+    captions: CaptionData,
+    language: string,
+    personalization: SummaryPersonalization | undefined,
+    features: AIContentFeature[]
+  ): Promise<SubscriberEmail | null> {
+    const variant =
+      personalization &&
+      (await this.data.getStoredSummaryVariant(
+        message.videoId,
+        language,
+        personalization.style,
+        getFocusHash(personalization.focus)
+      ));
+    const { insights } = await this.data.getStoredInsights(
+      message.videoId,
+      language
+    );
+    const planInsights = pickInsights(insights, features);
+    if (!variant && Object.keys(planInsights).length === 0) return null;
+
+    const summary =
+      variant ??
+      (await this.data.getStoredAIContent(message.videoId, language));
+    return {
+      emailContent: renderVideoEmail(message, captions, {
+        ...summary?.content,
+        ...planInsights,
+      }),
+      personalized: Boolean(variant),
+    };
+  }
+}
@@ -0,0 +1,424 @@
+import {
+  checkAndAlertIneligibleProfiles,
+  createNotifications,
+  getChannelSubscribers,
+  getEligibleProfileIds,
+  getNotifiedProfileIds,
+  getPlanAIContentFeatures,
+  getPlanSummaryProvider,
+  getStoredAIContent,
+  getStoredCaptions,
+  getStoredEmailTemplate,
+  getStoredSummaryVariant,
+  getStoredInsights,
+  getStoredVideoType,
+  getSubscriberAIContentFeatures,
+  getSubscriberLanguagePreferences,
+  getSubscriberPersonalizations,
+  getTranscriptionLimitSeconds,
+  isVideoDeleted,
+  storeAIContent,
+  storeCaptions,
+  storeEmailTemplate,
+  storeInsights,
+  storeSummaryVariant,
+  storeVideoType,
+} from "@/lib/supabase";
+import {
+  AIContentFeature,
+  CaptionData,
+  ChannelSubscriber,
+  ChannelSubscriberFilter,
+  NewEmailNotification,
+  StoredVideoInsights,
+  SubscriberAIContentFeatures,
+  SubscriberLanguagePreference,
+  SummaryPersonalization,
+  SummaryProviderName,
+  SummaryStyle,
+  VideoAIContent,
+  VideoInsights,
+  VideoType,
+} from "@/lib/types";
+import {
+  isPersonalized,
+  normalizeSummaryFocus,
+} from "@/lib/summary-personalization";
+import { pickInsights } from "@/lib/ai-processor";
+
+/**
+ * Everything the pipeline stages read and write about videos, their
+ * subscribers and the notifications they get. Supabase holds it by default.
+ */
+export interface PipelineStore {
+  isVideoDeleted(videoId: string): Promise<boolean>;
+  getChannelSubscribers(
+    channelId: string,
+    filter?: ChannelSubscriberFilter
+  ): Promise<ChannelSubscriber[]>;
+  getEligibleProfileIds(channelId: string): Promise<string[]>;
+  checkAndAlertIneligibleProfiles(channelId: string): Promise<void>;
+  getStoredVideoType(videoId: string): Promise<VideoType | null>;
+  storeVideoType(videoId: string, videoType: VideoType): Promise<void>;
+  getStoredCaptions(videoId: string): Promise<CaptionData | null>;
+  storeCaptions(videoId: string, captions: CaptionData): Promise<void>;
+  getSubscriberLanguagePreferences(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<SubscriberLanguagePreference[]>;
+  getTranscriptionLimitSeconds(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<number>;
+  getPlanSummaryProvider(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<string | null>;
+  getPlanAIContentFeatures(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<AIContentFeature[]>;
+  getSubscriberAIContentFeatures(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<SubscriberAIContentFeatures[]>;
+  getStoredAIContent(
+    videoId: string,
+    language: string
+  ): Promise<VideoAIContent | null>;
+  storeAIContent(
+    videoId: string,
+    language: string,
+    aiContent: VideoAIContent
+  ): Promise<void>;
+  getStoredInsights(
+    videoId: string,
+    language: string
+  ): Promise<StoredVideoInsights>;
+  storeInsights(
+    videoId: string,
+    language: string,
+    features: AIContentFeature[],
+    insights: VideoInsights,
+    model: string,
+    provider: SummaryProviderName
+  ): Promise<void>;
+  getSubscriberPersonalizations(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<SummaryPersonalization[]>;
+  getStoredSummaryVariant(
+    videoId: string,
+    language: string,
+    style: SummaryStyle,
+    focusHash: string
+  ): Promise<VideoAIContent | null>;
+  storeSummaryVariant(
+    videoId: string,
+    language: string,
+    style: SummaryStyle,
+    focusHash: string,
+    aiContent: VideoAIContent
+  ): Promise<void>;
+  getStoredEmailTemplate(
+    videoId: string,
+    language: string
+  ): Promise<string | null>;
+  storeEmailTemplate(
+    videoId: string,
+    language: string,
+    emailContent: string
+  ): Promise<void>;
+  /**
+   * @returns Which of the profiles already have a notification about the video
+   */
+  getNotifiedProfileIds(
+    videoId: string,
+    profileIds: string[]
+  ): Promise<string[]>;
+  createNotifications(notifications: NewEmailNotification[]): Promise<void>;
+}
+
+export const supabasePipelineStore: PipelineStore = {
+  isVideoDeleted,
+  getChannelSubscribers,
+  getEligibleProfileIds,
+  checkAndAlertIneligibleProfiles,
+  getStoredVideoType,
+  storeVideoType,
+  getStoredCaptions,
+  storeCaptions,
+  getSubscriberLanguagePreferences,
+  getTranscriptionLimitSeconds,
+  getPlanSummaryProvider,
+  getPlanAIContentFeatures,
+  getSubscriberAIContentFeatures,
+  getStoredAIContent,
+  storeAIContent,
+  getStoredInsights,
+  storeInsights,
+  getSubscriberPersonalizations,
+  getStoredSummaryVariant,
+  storeSummaryVariant,
+  getStoredEmailTemplate,
+  storeEmailTemplate,
+  getNotifiedProfileIds,
+  createNotifications,
+};
+
+/**
+ * A channel follower, with the profile and plan settings the stages read
+ */
+export interface MemorySubscriber {
+  channelId: string;
+  profileId: string;
+  eligible?: boolean; // Within their plan limits unless false
+  videoTypes?: VideoType[]; // Every type when not set
+  notifyWithoutSummary?: boolean;
+  captionLanguage?: string | null;
+  summaryLanguage?: string | null;
+  summaryStyle?: SummaryStyle;
+  summaryFocus?: string | null;
+  aiContentFeatures?: AIContentFeature[]; // Enabled by their plan
+}
+
+/**
+ * Keeps videos, subscribers and notifications in process memory, for
+ * running the pipeline next to a `MemoryJobQueue` without Supabase.
+ * Plans share the transcription limit and summary provider, and
+ * personalized summaries are never used up.
+ */
+export class MemoryPipelineStore implements PipelineStore {
+  readonly subscribers: MemorySubscriber[] = [];
+  readonly deletedVideoIds = new Set<string>();
+  readonly alertedChannelIds: string[] = [];
+  readonly videoTypes = new Map<string, VideoType>();
+  readonly captions = new Map<string, CaptionData>();
+  readonly aiContents = new Map<string, VideoAIContent>();
+  readonly insights = new Map<string, StoredVideoInsights>();
+  readonly summaryVariants = new Map<string, VideoAIContent>();
+  readonly emailTemplates = new Map<string, string>();
+  readonly notifications: NewEmailNotification[] = [];
+  transcriptionLimitSeconds = 0;
+  summaryProvider: string | null = null;
+
+  private getFollowers(channelId: string, targetProfileId?: string) {
+    return this.subscribers.filter(
+      (subscriber) =>
+        subscriber.channelId === channelId &&
+        (!targetProfileId || subscriber.profileId === targetProfileId)
+    );
+  }
+
+  async isVideoDeleted(videoId: string): Promise<boolean> {
+    return this.deletedVideoIds.has(videoId);
+  }
+
+  async getChannelSubscribers(
+    channelId: string,
+    filter: ChannelSubscriberFilter = {}
+  ): Promise<ChannelSubscriber[]> {
+    return this.getFollowers(channelId, filter.profileId)
+      .filter(
+        (subscriber) =>
+          (!filter.videoType ||
+            !subscriber.videoTypes ||
+            subscriber.videoTypes.includes(filter.videoType)) &&
+          (!filter.notifyWithoutSummary || subscriber.notifyWithoutSummary)
+      )
+      .map((subscriber) => ({
+        profileId: subscriber.profileId,
+        summaryLanguage: subscriber.summaryLanguage ?? null,
+      }));
+  }
+
+  async getEligibleProfileIds(channelId: string): Promise<string[]> {
+    return this.getFollowers(channelId)
+      .filter((subscriber) => subscriber.eligible !== false)
+      .map((subscriber) => subscriber.profileId);
+  }
+
+  async checkAndAlertIneligibleProfiles(channelId: string): Promise<void> {
+    this.alertedChannelIds.push(channelId);
+  }
+
+  async getStoredVideoType(videoId: string): Promise<VideoType | null> {
+    return this.videoTypes.get(videoId) ?? null;
+  }
+
+  async storeVideoType(videoId: string, videoType: VideoType): Promise<void> {
+    this.videoTypes.set(videoId, videoType);
+  }
+
+  async getStoredCaptions(videoId: string): Promise<CaptionData | null> {
+    return this.captions.get(videoId) ?? null;
+  }
+
+  async storeCaptions(videoId: string, captions: CaptionData): Promise<void> {
+    this.captions.set(videoId, captions);
+  }
+
+  async getSubscriberLanguagePreferences(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<SubscriberLanguagePreference[]> {
+    return this.getFollowers(channelId, targetProfileId).map((subscriber) => ({
+      captionLanguage: subscriber.captionLanguage ?? null,
+      summaryLanguage: subscriber.summaryLanguage ?? null,
+    }));
+  }
+
+  async getTranscriptionLimitSeconds(): Promise<number> {
+    return this.transcriptionLimitSeconds;
+  }
+
+  async getPlanSummaryProvider(): Promise<string | null> {
+    return this.summaryProvider;
+  }
+
+  async getPlanAIContentFeatures(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<AIContentFeature[]> {
+    const features = new Set(
+      (
+        await this.getSubscriberAIContentFeatures(channelId, targetProfileId)
+      ).flatMap((subscriber) => subscriber.features)
+    );
+    return Array.from(features);
+  }
+
+  async getSubscriberAIContentFeatures(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<SubscriberAIContentFeatures[]> {
+    return this.getFollowers(channelId, targetProfileId)
+      .filter((subscriber) => subscriber.eligible !== false)
+      .map((subscriber) => ({
+        profileId: subscriber.profileId,
+        features: subscriber.aiContentFeatures ?? [],
+      }));
+  }
+
+  async getStoredAIContent(
+    videoId: string,
+    language: string
+  ): Promise<VideoAIContent | null> {
+    return this.aiContents.get(`${videoId}:${language}`) ?? null;
+  }
+
+  async storeAIContent(
+    videoId: string,
+    language: string,
+    aiContent: VideoAIContent
+  ): Promise<void> {
+    this.aiContents.set(`${videoId}:${language}`, aiContent);
+  }
+
+  async getStoredInsights(
+    videoId: string,
+    language: string
+  ): Promise<StoredVideoInsights> {
+    return (
+      this.insights.get(`${videoId}:${language}`) ?? {
+        features: [],
+        insights: {},
+      }
+    );
+  }
+
+  async storeInsights(
+    videoId: string,
+    language: string,
+    features: AIContentFeature[],
+    insights: VideoInsights
+  ): Promise<void> {
+    const stored = await this.getStoredInsights(videoId, language);
+    const merged: StoredVideoInsights = {
+      features: Array.from(new Set([...stored.features, ...features])),
+      insights: { ...stored.insights, ...pickInsights(insights, features) },
+    };
+    this.insights.set(`${videoId}:${language}`, merged);
+  }
+
+  async getSubscriberPersonalizations(
+    channelId: string,
+    targetProfileId?: string
+  ): Promise<SummaryPersonalization[]> {
+    return this.getFollowers(channelId, targetProfileId)
+      .map((subscriber) => ({
+        profileId: subscriber.profileId,
+        summaryLanguage: subscriber.summaryLanguage ?? null,
+        style: subscriber.summaryStyle ?? "standard",
+        focus: normalizeSummaryFocus(subscriber.summaryFocus ?? null),
+      }))
+      .filter(isPersonalized);
+  }
+
+  async getStoredSummaryVariant(
+    videoId: string,
+    language: string,
+    style: SummaryStyle,
+    focusHash: string
+  ): Promise<VideoAIContent | null> {
+    return (
+      this.summaryVariants.get(
+        `${videoId}:${language}:${style}:${focusHash}`
+      ) ?? null
+    );
+  }
+
+  async storeSummaryVariant(
+    videoId: string,
+    language: string,
+    style: SummaryStyle,
+    focusHash: string,
+    aiContent: VideoAIContent
+  ): Promise<void> {
+    this.summaryVariants.set(
+      `${videoId}:${language}:${style}:${focusHash}`,
+      aiContent
+    );
+  }
+
+  async getStoredEmailTemplate(
+    videoId: string,
+    language: string
+  ): Promise<string | null> {
+    return this.emailTemplates.get(`${videoId}:${language}`) ?? null;
+  }
+
+  async storeEmailTemplate(
+    videoId: string,
+    language: string,
+    emailContent: string
+  ): Promise<void> {
+    this.emailTemplates.set(`${videoId}:${language}`, emailContent);
+  }
+
+  async getNotifiedProfileIds(
+    videoId: string,
+    profileIds: string[]
+  ): Promise<string[]> {
+    return profileIds.filter((profileId) =>
+      this.notifications.some(
+        (notification) =>
+          notification.video_id === videoId &&
+          notification.profile_id === profileId
+      )
+    );
+  }
+
+  async createNotifications(
+    notifications: NewEmailNotification[]
+  ): Promise<void> {
+    // Like the unique profile/video constraint, the first row wins
+    for (const notification of notifications) {
+      const [isNotified] = await this.getNotifiedProfileIds(
+        notification.video_id,
+        [notification.profile_id]
+      );
+      if (!isNotified) this.notifications.push(notification);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Algorithms the hub may use in the X-Hub-Signature header (YouTube uses sha1)
+const SUPPORTED_ALGORITHMS = ["sha1", "sha256", "sha384", "sha512"];
+
+export type HubSignatureResult = "valid" | "missing" | "malformed" | "mismatch";
+
+/**
+ * Generates a random secret to send to the hub as hub.secret
+ */
+export function generateHubSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Verifies the X-Hub-Signature header of a content notification
+ * @param rawBody - The exact request body the hub signed
+ * @param signatureHeader - The X-Hub-Signature header, e.g. "sha1=abc123..."
+ * @param secret - The hub.secret sent when subscribing to the channel
+ */
+export function verifyHubSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  secret: string
+): HubSignatureResult {
+  if (!signatureHeader) {
+    return "missing";
+  }
+
+  const [algorithm, signature] = signatureHeader.trim().split("=");
+  if (
+    !algorithm ||
+    !signature ||
+    !SUPPORTED_ALGORITHMS.includes(algorithm.toLowerCase()) ||
+    !/^[0-9a-f]+$/i.test(signature)
+  ) {
+    return "malformed";
+  }
+
+  const expected = createHmac(algorithm.toLowerCase(), secret)
+    .update(rawBody, "utf8")
+    .digest();
+  const received = Buffer.from(signature, "hex");
+
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return "mismatch";
+  }
+
+  return "valid";
+}
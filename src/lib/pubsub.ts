@@ -1,4 +1,4 @@
-import { buildUrl } from "@/lib/utils";
+import { internalFetch } from "@/lib/utils";
 
 type PubSubMode = "subscribe" | "unsubscribe";
 
@@ -6,38 +6,26 @@ interface PubSubOptions {
   channelId: string;
   mode?: PubSubMode;
   leaseSeconds?: number;
-  ngrokUrl?: string;
 }
 
 /**
  * Manages PubSubHubbub subscriptions for YouTube channels
+ * The callback URL and hub.secret are set server-side by /api/youtube/pubsubhubbub
+ * @returns The callback URL the hub notifies
  */
 export async function managePubSubHubbub({
   channelId,
-  mode = "subscribe",
   // leaseSeconds = default,
   // When you subscribe to a topic (e.g., a YouTube channel's feed) using the PubSubHubbub hub, you specify a lease_seconds parameter. YouTube's implementation usually defaults to 30 days (2,592,000 seconds) for the lease duration.
-  ngrokUrl,
+  mode = "subscribe",
 }: PubSubOptions): Promise<string> {
-  // Build callback URL (with ngrok support for local development)
-  let callbackUrl = buildUrl("/api/youtube/webhook");
-  if (process.env.NODE_ENV === "development" && ngrokUrl) {
-    callbackUrl = `${ngrokUrl}/api/youtube/webhook`;
-  }
-
-  const topicUrl = `https://www.youtube.com/xml/feeds/videos.xml?channel_id=${channelId}`;
-
-  // Use APP_URL for the API endpoint
-  const apiUrl = buildUrl("/api/youtube/pubsubhubbub");
-
-  const pubsubResponse = await fetch(apiUrl, {
+  // The route reads the user from the session in the browser, and takes
+  // the internal secret from the app's own server
+  const pubsubResponse = await internalFetch("/api/youtube/pubsubhubbub", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
+    credentials: "include",
     body: JSON.stringify({
-      callbackUrl,
-      topicUrl,
+      channelId,
       mode,
     }),
   });
@@ -51,5 +39,5 @@ export async function managePubSubHubbub({
   if (!result.success) {
     throw new Error(result.error || `Failed to ${mode} channel updates`);
   }
-  return callbackUrl;
+  return result.callbackUrl;
 }
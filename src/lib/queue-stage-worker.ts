@@ -0,0 +1,331 @@
+import { randomUUID } from "node:crypto";
+import { QueueJob, QueueStageStats } from "@/lib/types";
+import { JobQueue } from "@/lib/job-queue";
+import { getDeadLetterQueueName } from "@/lib/dead-letter-queue";
+import { createLimiter, sleep } from "@/lib/concurrency";
+import { WorkerHeartbeat } from "@/lib/worker-heartbeat";
+import { supabaseWorkerStore, WorkerStore } from "@/lib/worker-store";
+import { logger } from "@/lib/logger";
+
+const POLLING_INTERVAL = 5000;
+const THROUGHPUT_WINDOW_MS = 60000;
+
+export interface QueueStageConfig<T> {
+  stage: string;
+  queueName: string;
+  logPrefix: string;
+  batchSize: number;
+  concurrency: number;
+  visibilityTimeoutSeconds: number;
+  maxAttempts: number;
+  retryBaseDelaySeconds: number;
+  // Replaces the exponential backoff for errors that call for another delay
+  retryDelaySeconds?: (error: unknown, attempts: number) => number | undefined;
+  // Work with the same key runs once, however often it is delivered
+  idempotencyKey?: (message: T) => string;
+}
+
+// Returned by `handle` to put the message back on the queue for later
+export interface StageDeferral<T> {
+  message: T;
+  delaySeconds: number;
+}
+
+/**
+ * Reads batches from one queue and runs `handle` on each message.
+ * A message is deleted when `handle` resolves; when it throws, the message
+ * is retried with exponential backoff and dead-lettered after `maxAttempts`.
+ */
+export abstract class QueueStageWorker<T> {
+  public isRunning: boolean = false;
+  private messageLimit;
+  private heartbeat: WorkerHeartbeat;
+  private currentBatch: Promise<number> | null = null;
+  private stopController = new AbortController();
+  private inFlight = 0;
+  private processedCount = 0;
+  private failedCount = 0;
+  private duplicateCount = 0;
+  private deferredCount = 0;
+  private recentCompletions: number[] = [];
+  private lastLagSeconds: number | null = null;
+
+  constructor(
+    protected config: QueueStageConfig<T>,
+    protected queue: JobQueue,
+    private store: WorkerStore = supabaseWorkerStore
+  ) {
+    this.messageLimit = createLimiter(config.concurrency);
+    // A batch can take up to the visibility timeout between loops
+    this.heartbeat = new WorkerHeartbeat(
+      `queue:${config.stage}`,
+      config.visibilityTimeoutSeconds,
+      async () => {
+        const depths = await queue.getDepths();
+        const deadLetterQueueName = getDeadLetterQueueName(config.queueName);
+        return {
+          [config.queueName]: depths[config.queueName] ?? 0,
+          [deadLetterQueueName]: depths[deadLetterQueueName] ?? 0,
+        };
+      },
+      store
+    );
+  }
+
+  protected abstract handle(message: T): Promise<StageDeferral<T> | void>;
+
+  async start() {
+    this.isRunning = true;
+    this.stopController = new AbortController();
+    logger.info(`🎬 Starting ${this.config.stage} stage worker`, {
+      prefix: this.config.logPrefix,
+    });
+
+    while (this.isRunning) {
+      let batchSize = 0;
+      // A paused stage leaves its messages waiting in the queue
+      const isPaused = await this.heartbeat.beat();
+
+      if (!isPaused) {
+        try {
+          this.currentBatch = this.processBatch();
+          batchSize = await this.currentBatch;
+        } catch (error) {
+          this.heartbeat.recordError();
+          logger.error(`💥 ${this.config.stage} stage worker error`, {
+            prefix: this.config.logPrefix,
+            data: {
+              error: error instanceof Error ? error.message : "Unknown error",
+              stack: error instanceof Error ? error.stack : undefined,
+            },
+          });
+        } finally {
+          this.currentBatch = null;
+        }
+      }
+
+      // A full batch means more is waiting, so read again right away
+      if (batchSize < this.config.batchSize) {
+        await sleep(POLLING_INTERVAL, this.stopController.signal);
+      }
+    }
+  }
+
+  /**
+   * Stops reading new batches and resolves once in-flight messages finish
+   */
+  async stop() {
+    this.isRunning = false;
+    this.stopController.abort();
+    logger.info(`🛑 Stopping ${this.config.stage} stage worker`, {
+      prefix: this.config.logPrefix,
+      data: { inFlight: this.inFlight },
+    });
+
+    await this.currentBatch?.catch(() => undefined);
+  }
+
+  getStats(): QueueStageStats {
+    const windowStart = Date.now() - THROUGHPUT_WINDOW_MS;
+    this.recentCompletions = this.recentCompletions.filter(
+      (completedAt) => completedAt >= windowStart
+    );
+
+    return {
+      stage: this.config.stage,
+      queueName: this.config.queueName,
+      processed: this.processedCount,
+      failed: this.failedCount,
+      duplicates: this.duplicateCount,
+      deferred: this.deferredCount,
+      inFlight: this.inFlight,
+      messagesPerMinute: this.recentCompletions.length,
+      lagSeconds: this.lastLagSeconds,
+      batchSize: this.config.batchSize,
+      concurrency: this.config.concurrency,
+    };
+  }
+
+  /**
+   * Sends a message on to another stage's queue
+   * @param queueName - Queue of the next stage
+   * @param message - Message to send
+   */
+  protected async enqueue<M>(queueName: string, message: M) {
+    await this.queue.send(queueName, message);
+  }
+
+  /**
+   * Reads up to `batchSize` messages and processes them concurrently
+   * @returns Number of messages read
+   */
+  protected async processBatch(): Promise<number> {
+    // Messages stay in the queue, hidden until processed or timed out
+    const batch = await this.queue.read<T>(this.config.queueName, {
+      limit: this.config.batchSize,
+      visibilityTimeoutSeconds: this.config.visibilityTimeoutSeconds,
+    });
+
+    if (batch.length === 0) {
+      this.lastLagSeconds = 0;
+      return 0;
+    }
+
+    // Lag is how long the oldest message of the batch waited
+    this.lastLagSeconds = Math.max(
+      ...batch.map(
+        (job) => (Date.now() - new Date(job.enqueuedAt).getTime()) / 1000
+      )
+    );
+
+    logger.info(`📦 Processing ${batch.length} messages`, {
+      prefix: this.config.logPrefix,
+      data: { queueName: this.config.queueName, batchSize: batch.length },
+    });
+
+    await Promise.all(
+      batch.map((job) =>
+        this.messageLimit(async () => {
+          this.inFlight++;
+          try {
+            await this.processMessage(job);
+          } finally {
+            this.inFlight--;
+            this.recentCompletions.push(Date.now());
+          }
+        })
+      )
+    );
+
+    return batch.length;
+  }
+
+  private async processMessage(job: QueueJob<T>) {
+    // A message that keeps timing out never reaches the catch below
+    if (job.attempts > this.config.maxAttempts) {
+      await this.handleFailedMessage(
+        job,
+        "Visibility timeout expired on every attempt"
+      );
+      return;
+    }
+
+    const idempotencyKey = this.config.idempotencyKey
+      ? `${this.config.stage}:${this.config.idempotencyKey(job.message)}`
+      : null;
+    const leaseOwner = randomUUID();
+
+    try {
+      if (idempotencyKey) {
+        const lease = await this.store.acquireIdempotencyLease(
+          idempotencyKey,
+          leaseOwner,
+          this.config.visibilityTimeoutSeconds
+        );
+
+        // The lease holder's own message carries the work to completion
+        if (lease !== "acquired") {
+          await this.queue.ack(this.config.queueName, job.id);
+          this.duplicateCount++;
+          logger.info("🔁 Skipping duplicate message", {
+            prefix: this.config.logPrefix,
+            data: { messageId: job.id, idempotencyKey, lease },
+          });
+          return;
+        }
+      }
+
+      const deferral = await this.handle(job.message);
+      if (deferral) {
+        // A fresh copy, so waiting doesn't use up the message's attempts
+        await this.queue.send(
+          this.config.queueName,
+          deferral.message,
+          deferral.delaySeconds
+        );
+        this.deferredCount++;
+      }
+      // A deferred key stays open for the copy to claim
+      if (idempotencyKey && deferral) {
+        await this.store.releaseIdempotencyLease(idempotencyKey, leaseOwner);
+      } else if (idempotencyKey) {
+        await this.store.completeIdempotencyKey(idempotencyKey, leaseOwner);
+      }
+
+      // Only a fully processed message leaves the queue
+      await this.queue.ack(this.config.queueName, job.id);
+      this.processedCount++;
+      this.heartbeat.recordProcessed();
+    } catch (error) {
+      logger.error("💥 Error processing message", {
+        prefix: this.config.logPrefix,
+        data: {
+          error: error instanceof Error ? error.message : "Unknown error",
+          stack: error instanceof Error ? error.stack : undefined,
+          messageId: job.id,
+          readCount: job.attempts,
+        },
+      });
+
+      this.failedCount++;
+      this.heartbeat.recordError();
+      if (idempotencyKey) {
+        await this.store
+          .releaseIdempotencyLease(idempotencyKey, leaseOwner)
+          .catch(() => undefined);
+      }
+      await this.handleFailedMessage(
+        job,
+        error instanceof Error ? error.message : "Unknown error",
+        error
+      );
+    }
+  }
+
+  /**
+   * Leaves a failed message invisible for an exponentially growing delay,
+   * or moves it to the dead-letter queue once it has used all its attempts.
+   */
+  private async handleFailedMessage(
+    job: QueueJob<T>,
+    lastError: string,
+    error?: unknown
+  ) {
+    try {
+      if (job.attempts >= this.config.maxAttempts) {
+        await this.queue.deadLetter(this.config.queueName, job, lastError);
+        logger.warn("☠️ Message moved to dead-letter queue", {
+          prefix: this.config.logPrefix,
+          data: {
+            messageId: job.id,
+            readCount: job.attempts,
+          },
+        });
+        return;
+      }
+
+      const backoffSeconds =
+        this.config.retryDelaySeconds?.(error, job.attempts) ??
+        this.config.retryBaseDelaySeconds * 2 ** (job.attempts - 1);
+      await this.queue.nack(this.config.queueName, job.id, backoffSeconds);
+
+      logger.info("♻️ Message scheduled for retry", {
+        prefix: this.config.logPrefix,
+        data: {
+          messageId: job.id,
+          readCount: job.attempts,
+          retryInSeconds: backoffSeconds,
+        },
+      });
+    } catch (error) {
+      // The visibility timeout still expires, so the message is retried anyway
+      logger.error("❌ Failed to schedule message retry", {
+        prefix: this.config.logPrefix,
+        data: {
+          error: error instanceof Error ? error.message : "Unknown error",
+          messageId: job.id,
+        },
+      });
+    }
+  }
+}
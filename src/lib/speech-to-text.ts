@@ -0,0 +1,135 @@
+import { promisify } from "util";
+import { execFile } from "child_process";
+import { mkdtemp, readFile, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CaptionSegment } from "@/lib/types";
+import { joinSegments } from "@/lib/transcript-segments";
+import { logger } from "@/lib/logger";
+
+const execFileAsync = promisify(execFile);
+
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+// CPU models run at a fraction of real time, so allow for long videos
+const TRANSCRIBE_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+interface WhisperOutput {
+  text: string;
+  language?: string;
+  segments: { start: number; end: number; text: string }[];
+}
+
+export interface SpeechToTextResult {
+  transcript: string;
+  language: string;
+  segments: CaptionSegment[];
+}
+
+/**
+ * Whether videos without captions may be transcribed on this machine.
+ * Needs `yt-dlp` and a Whisper-compatible CLI on the `PATH`.
+ */
+export function isSpeechToTextEnabled(): boolean {
+  return process.env.SPEECH_TO_TEXT_ENABLED === "true";
+}
+
+/**
+ * Downloads the audio track with yt-dlp
+ * @returns Path of the downloaded file
+ */
+async function downloadAudio(videoId: string, dir: string): Promise<string> {
+  await execFileAsync(
+    "yt-dlp",
+    [
+      "--format",
+      "bestaudio",
+      "--no-playlist",
+      "--output",
+      join(dir, "audio.%(ext)s"),
+      `https://www.youtube.com/watch?v=${videoId}`,
+    ],
+    { timeout: DOWNLOAD_TIMEOUT_MS }
+  );
+
+  const [audioFile] = await readdir(dir);
+  if (!audioFile) {
+    throw new Error("yt-dlp finished without an audio file");
+  }
+  return join(dir, audioFile);
+}
+
+/**
+ * Runs a CLI with the openai-whisper interface, such as
+ * `whisper-ctranslate2` (faster-whisper) or `whisper` itself
+ */
+async function runWhisper(
+  audioPath: string,
+  dir: string
+): Promise<WhisperOutput> {
+  const command = process.env.WHISPER_COMMAND || "whisper-ctranslate2";
+  const model = process.env.WHISPER_MODEL || "small";
+
+  await execFileAsync(
+    command,
+    [
+      audioPath,
+      "--model",
+      model,
+      "--output_format",
+      "json",
+      "--output_dir",
+      dir,
+      "--device",
+      "cpu",
+    ],
+    { timeout: TRANSCRIBE_TIMEOUT_MS, maxBuffer: 50 * 1024 * 1024 }
+  );
+
+  // The output is named after the input file
+  const outputPath = audioPath.replace(/\.[^.]+$/, ".json");
+  return JSON.parse(await readFile(outputPath, "utf8"));
+}
+
+/**
+ * Transcribes a video's audio locally. Slow, so only for videos that
+ * never got captions.
+ * @param videoId - YouTube video ID
+ */
+export async function transcribeVideoAudio(
+  videoId: string
+): Promise<SpeechToTextResult> {
+  if (!/^[\w-]{11}$/.test(videoId)) {
+    throw new Error(`Invalid video ID: ${videoId}`);
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), `stt-${videoId}-`));
+  try {
+    const startedAt = Date.now();
+    const audioPath = await downloadAudio(videoId, dir);
+    const output = await runWhisper(audioPath, dir);
+
+    const segments = output.segments.map((segment) => ({
+      text: segment.text.trim(),
+      start: segment.start,
+      duration: segment.end - segment.start,
+    }));
+
+    logger.info("✅ Transcribed video audio", {
+      prefix: "Speech-to-text",
+      data: {
+        videoId,
+        language: output.language,
+        segments: segments.length,
+        tookSeconds: Math.round((Date.now() - startedAt) / 1000),
+      },
+    });
+
+    return {
+      transcript: joinSegments(segments),
+      language: output.language || "en",
+      segments,
+    };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -1,6 +1,8 @@
 import { supabaseServicePublic } from "@/lib/supabase";
 import { logger } from "@/lib/logger";
 import { checkAndHandleUsagePeriodReset } from "@/lib/supabase";
+import { WorkerHeartbeat } from "@/lib/worker-heartbeat";
+import { sleep } from "@/lib/concurrency";
 
 // Option 2: Make it configurable via env variable
 const POLLING_INTERVAL =
@@ -10,18 +12,26 @@ const POLLING_INTERVAL =
 
 export class SubscriptionCheckWorker {
   public isRunning: boolean = false;
+  private stopController = new AbortController();
   private supabase = supabaseServicePublic;
+  private heartbeat = new WorkerHeartbeat(
+    "subscription-check",
+    POLLING_INTERVAL / 1000
+  );
 
   async start() {
     this.isRunning = true;
+    this.stopController = new AbortController();
     logger.info("🔄 Starting subscription check worker", {
       prefix: "Subscription Check",
     });
 
     while (this.isRunning) {
       try {
-        await this.processSubscriptionChecks();
-        await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL));
+        if (!(await this.heartbeat.beat())) {
+          await this.processSubscriptionChecks();
+        }
+        await sleep(POLLING_INTERVAL, this.stopController.signal);
       } catch (error) {
         logger.error("💥 Subscription check worker error:", {
           prefix: "Subscription Check",
@@ -35,6 +45,7 @@ export class SubscriptionCheckWorker {
 
   stop() {
     this.isRunning = false;
+    this.stopController.abort();
     logger.info("🛑 Stopping subscription check worker", {
       prefix: "Subscription Check",
     });
@@ -73,8 +84,10 @@ export class SubscriptionCheckWorker {
       // Check each subscription
       for (const subscription of subscriptions || []) {
         await checkAndHandleUsagePeriodReset(subscription.profile_id);
+        this.heartbeat.recordProcessed();
       }
     } catch (error) {
+      this.heartbeat.recordError();
       logger.error("💥 Error processing subscription checks", {
         prefix: "Subscription Check",
         data: {
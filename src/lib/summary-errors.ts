@@ -0,0 +1,31 @@
+import { SummaryProviderName } from "@/lib/types";
+
+/**
+ * The provider could not be reached or rejected the request. Usually
+ * temporary, so the work is retried with a growing delay.
+ */
+export class SummaryProviderError extends Error {
+  constructor(
+    public provider: SummaryProviderName,
+    message: string,
+    options?: ErrorOptions
+  ) {
+    super(`${provider}: ${message}`, options);
+    this.name = "SummaryProviderError";
+  }
+}
+
+/**
+ * The model answered, but not with a valid summary, even when asked again.
+ * Another attempt often works, so it is retried soon.
+ */
+export class SummaryOutputError extends Error {
+  constructor(
+    public provider: SummaryProviderName,
+    public model: string,
+    public problem: string
+  ) {
+    super(`${provider} (${model}) returned an invalid summary: ${problem}`);
+    this.name = "SummaryOutputError";
+  }
+}
@@ -0,0 +1,41 @@
+import { SummaryPersonalization } from "@/lib/types";
+import { MAX_SUMMARY_FOCUS_LENGTH } from "@/lib/constants";
+
+export interface PersonalizedSummaryUsage {
+  profileId: string;
+  used: number; // Personalized summaries sent this billing period
+  limit: number; // The plan's `personalized_summary_limit`
+}
+
+/**
+ * Trims a channel focus to what the prompt takes
+ * @returns The focus, or null when it is blank
+ */
+export function normalizeSummaryFocus(focus: string | null): string | null {
+  return focus?.trim().slice(0, MAX_SUMMARY_FOCUS_LENGTH) || null;
+}
+
+/**
+ * Whether the subscriber gets something other than the shared summary
+ */
+export function isPersonalized(personalization: SummaryPersonalization) {
+  return personalization.style !== "standard" || Boolean(personalization.focus);
+}
+
+/**
+ * Keeps the subscribers whose plan has personalized summaries left. Those
+ * without an active subscription get the standard summary.
+ */
+export function filterWithinPersonalizedLimit(
+  personalizations: SummaryPersonalization[],
+  usage: PersonalizedSummaryUsage[]
+): SummaryPersonalization[] {
+  const withinLimit = new Set(
+    usage
+      .filter((subscription) => subscription.used < subscription.limit)
+      .map((subscription) => subscription.profileId)
+  );
+  return personalizations.filter((personalization) =>
+    withinLimit.has(personalization.profileId)
+  );
+}
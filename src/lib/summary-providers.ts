@@ -0,0 +1,187 @@
+import OpenAI from "openai";
+import { createHash } from "node:crypto";
+import { SummaryProviderName } from "@/lib/types";
+import { SummaryProviderError } from "@/lib/summary-errors";
+import { logger } from "@/lib/logger";
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  temperature: number;
+}
+
+/**
+ * A model that turns a prompt into text. `complete` resolves to null when
+ * the model answered with nothing and throws a `SummaryProviderError`
+ * when the request failed.
+ */
+export interface SummaryProvider {
+  name: SummaryProviderName;
+  model: string;
+  // Whether the credentials or endpoint it needs are set up
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<string | null>;
+}
+
+class OpenAIProvider implements SummaryProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    public name: SummaryProviderName,
+    public model: string,
+    private apiKey: string | undefined,
+    private baseURL?: string
+  ) {}
+
+  isConfigured() {
+    return Boolean(this.apiKey);
+  }
+
+  async complete({ system, prompt, temperature }: CompletionRequest) {
+    this.client ??= new OpenAI({ apiKey: this.apiKey, baseURL: this.baseURL });
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+        temperature,
+      });
+      return response.choices[0]?.message?.content ?? null;
+    } catch (error) {
+      throw new SummaryProviderError(
+        this.name,
+        error instanceof Error ? error.message : "Unknown error",
+        { cause: error }
+      );
+    }
+  }
+}
+
+class AnthropicProvider implements SummaryProvider {
+  name: SummaryProviderName = "anthropic";
+  model = process.env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest";
+
+  isConfigured() {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  }
+
+  async complete({ system, prompt, temperature }: CompletionRequest) {
+    const response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "x-api-key": process.env.ANTHROPIC_API_KEY || "",
+        "anthropic-version": "2023-06-01",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: 2048,
+        system,
+        messages: [{ role: "user", content: prompt }],
+        temperature,
+      }),
+    }).catch((error) => {
+      throw new SummaryProviderError(
+        this.name,
+        error instanceof Error ? error.message : "Unknown error",
+        { cause: error }
+      );
+    });
+
+    if (!response.ok) {
+      const error = await response
+        .json()
+        .catch(() => ({ error: { message: response.statusText } }));
+      throw new SummaryProviderError(
+        this.name,
+        `Request failed with status ${response.status}: ${error.error?.message}`
+      );
+    }
+
+    const { content } = (await response.json()) as {
+      content: { type: string; text?: string }[];
+    };
+    return (
+      content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text)
+        .join("") || null
+    );
+  }
+}
+
+/**
+ * Answers without any network access, the same way for the same prompt,
+ * so the pipeline can run offline
+ */
+class FakeProvider implements SummaryProvider {
+  name: SummaryProviderName = "fake";
+  model = "fake-summary-v1";
+
+  isConfigured() {
+    return true;
+  }
+
+  async complete({ prompt }: CompletionRequest) {
+    const digest = createHash("sha256").update(prompt).digest("hex");
+    return JSON.stringify({
+      briefSummary: `Summary ${digest.slice(0, 8)} of a ${
+        prompt.length
+      } character prompt.`,
+      keyPoints: [1, 2, 3].map(
+        (n) => `Point ${n} (${digest.slice(n * 8, n * 8 + 8)})`
+      ),
+      // Extra fields are ignored by prompts that don't ask for them
+      chapters: [{ start: "0:00", title: `Chapter ${digest.slice(0, 4)}` }],
+      quotes: [
+        { text: `Quote ${digest.slice(4, 12)}`, speaker: null, start: null },
+      ],
+      entities: [],
+      tags: [`topic-${digest.slice(12, 16)}`],
+      tone: { sentiment: "neutral", labels: ["informative"] },
+    });
+  }
+}
+
+const SUMMARY_PROVIDERS: Record<SummaryProviderName, SummaryProvider> = {
+  openai: new OpenAIProvider(
+    "openai",
+    process.env.OPENAI_MODEL || "gpt-4o-mini",
+    process.env.OPENAI_API_KEY
+  ),
+  anthropic: new AnthropicProvider(),
+  // Ollama and the llama.cpp server both speak the OpenAI API
+  local: new OpenAIProvider(
+    "local",
+    process.env.LOCAL_LLM_MODEL || "llama3.1:8b",
+    process.env.LOCAL_LLM_BASE_URL ? "local" : undefined,
+    process.env.LOCAL_LLM_BASE_URL
+  ),
+  fake: new FakeProvider(),
+};
+
+/**
+ * Returns the named provider, or the one set by `SUMMARY_PROVIDER`
+ * (`openai` by default) when no name is given or it isn't known
+ * @param name - Provider picked for the video, e.g. by a plan
+ */
+export function getSummaryProvider(name?: string | null): SummaryProvider {
+  if (name && name in SUMMARY_PROVIDERS) {
+    return SUMMARY_PROVIDERS[name as SummaryProviderName];
+  }
+  if (name) {
+    logger.warn("⚠️ Unknown summary provider, using the default", {
+      prefix: "AI",
+      data: { name },
+    });
+  }
+
+  const defaultName = process.env.SUMMARY_PROVIDER || "openai";
+  return (
+    SUMMARY_PROVIDERS[defaultName as SummaryProviderName] ??
+    SUMMARY_PROVIDERS.openai
+  );
+}
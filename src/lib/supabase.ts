@@ -11,8 +11,37 @@ import {
   Subscription,
   PlanName,
   AlertType,
+  WebhookRejectionReason,
+  VideoRegistration,
+  FeedPollChannel,
+  FeedPollUpdate,
+  HubSubscriptionState,
+  WorkerHeartbeatRecord,
+  WorkerStatus,
+  IdempotencyLeaseResult,
+  VideoType,
+  VideoTypePreferences,
+  SubscriberLanguagePreference,
+  AIContentFeature,
+  PlanFeatures,
+  SummaryStyle,
+  SummaryPersonalization,
+  ChannelSubscriber,
+  ChannelSubscriberFilter,
+  NewEmailNotification,
+  StoredVideoInsights,
+  SubscriberAIContentFeatures,
+  SummaryProviderName,
+  VideoInsights,
 } from "./types";
 import { queueLimitAlert } from "@/lib/notifications";
+import { AI_CONTENT_FEATURES } from "@/lib/constants";
+import {
+  filterWithinPersonalizedLimit,
+  isPersonalized,
+  normalizeSummaryFocus,
+} from "@/lib/summary-personalization";
+import { getSegmentsDuration } from "@/lib/transcript-segments";
 
 // Create a single shared instance for browser context
 const createSharedClient = () => {
@@ -52,6 +81,14 @@ export const supabaseServicePGMQPublic = (url: string, key: string) => {
 // Use the shared instance instead
 export const supabaseServicePublic = supabaseAnon;
 
+/**
+ * Row of a to-one embedded relation. Without generated database types the
+ * client types it as an array, while PostgREST returns the row itself.
+ */
+function getJoinedRow<T>(joined: T | T[]): T {
+  return Array.isArray(joined) ? joined[0] : joined;
+}
+
 export async function checkIfChannelIsLinked(
   profileId: string,
   channelId: string
@@ -82,6 +119,48 @@ export async function checkIfChannelIsLinked(
   return true;
 }
 
+/**
+ * Whether any profile still follows the channel
+ */
+export async function isChannelFollowed(channelId: string): Promise<boolean> {
+  const { count, error } = await supabaseAnon
+    .from("profiles_youtube_channels")
+    .select("id", { count: "exact", head: true })
+    .eq("youtube_channel_id", channelId);
+
+  if (error) {
+    logger.error("❌ Error checking channel followers", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Whether the profile is listed in `admins`, which only the database
+ * owner can write to
+ */
+export async function isAdminProfile(profileId: string): Promise<boolean> {
+  const { data, error } = await supabaseAnon
+    .from("admins")
+    .select("profile_id")
+    .eq("profile_id", profileId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("❌ Failed to check admin access", {
+      prefix: "Supabase",
+      data: { error: error.message, profileId },
+    });
+    throw error;
+  }
+
+  return Boolean(data);
+}
+
 export async function updateChannelSubscription(
   profileId: string,
   channelId: string,
@@ -94,6 +173,88 @@ export async function updateChannelSubscription(
     .eq("youtube_channel_id", channelId);
 }
 
+export async function getChannelHubSecret(
+  channelId: string
+): Promise<string | null> {
+  const { data, error } = await supabaseAnon
+    .from("profiles_youtube_channels")
+    .select("hub_secret")
+    .eq("youtube_channel_id", channelId)
+    .not("hub_secret", "is", null)
+    .limit(1);
+
+  if (error) {
+    logger.error("❌ Error fetching hub secret", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+
+  return data?.[0]?.hub_secret ?? null;
+}
+
+/**
+ * Followed channels with no hub secret yet, e.g. subscribed before
+ * notifications were signed. Their notifications are rejected until
+ * they subscribe again with a secret.
+ */
+export async function getChannelsWithoutHubSecret(
+  limit: number
+): Promise<string[]> {
+  const { data, error } = await supabaseServicePublic
+    .from("profiles_youtube_channels")
+    .select("youtube_channel_id")
+    .is("hub_secret", null)
+    .limit(limit);
+
+  if (error) {
+    logger.error("❌ Error fetching channels without hub secret", {
+      prefix: "Supabase",
+      data: { error: error.message },
+    });
+    throw error;
+  }
+
+  return Array.from(new Set(data.map((row) => row.youtube_channel_id)));
+}
+
+export async function storeChannelHubSecret(
+  channelId: string,
+  secret: string
+): Promise<void> {
+  // The hub keeps one subscription per channel, so every linked profile shares the secret
+  const { error } = await supabaseAnon
+    .from("profiles_youtube_channels")
+    .update({ hub_secret: secret })
+    .eq("youtube_channel_id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to store hub secret", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+}
+
+export async function recordWebhookRejection(
+  channelId: string | null,
+  reason: WebhookRejectionReason
+): Promise<void> {
+  const { error } = await supabaseAnon.from("webhook_rejections").insert({
+    channel_id: channelId,
+    reason,
+  });
+
+  if (error) {
+    logger.error("❌ Failed to record webhook rejection", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId, reason },
+    });
+  }
+}
+
 export async function addYouTubeChannel(
   profileId: string,
   channelData: {
@@ -231,6 +392,12 @@ export async function getProfileChannels(
         `
         id,
         created_at,
+        include_regular,
+        include_shorts,
+        include_live_replays,
+        include_premieres,
+        caption_language,
+        summary_focus,
         youtube_channel:youtube_channels!youtube_channel_id(
           id,
           title,
@@ -238,7 +405,9 @@ export async function getProfileChannels(
           subscriber_count,
           last_video_id,
           last_video_date,
-          custom_url
+          custom_url,
+          hub_lease_expires_at,
+          hub_state
         )
       `
       )
@@ -274,6 +443,16 @@ export async function getProfileChannels(
       avatar: item.youtube_channel.thumbnail,
       createdAt: item.created_at,
       customUrl: item.youtube_channel.custom_url,
+      leaseExpiresAt: item.youtube_channel.hub_lease_expires_at,
+      hubState: item.youtube_channel.hub_state,
+      videoTypes: {
+        regular: item.include_regular,
+        short: item.include_shorts,
+        live_replay: item.include_live_replays,
+        premiere: item.include_premieres,
+      },
+      captionLanguage: item.caption_language,
+      summaryFocus: item.summary_focus,
     }));
   } catch (error) {
     logger.error("❌ Error in getProfileChannels", {
@@ -287,6 +466,248 @@ export async function getProfileChannels(
   }
 }
 
+// profiles_youtube_channels column holding the preference for each type
+export const VIDEO_TYPE_PREFERENCE_COLUMNS: Record<VideoType, string> = {
+  regular: "include_regular",
+  short: "include_shorts",
+  live_replay: "include_live_replays",
+  premiere: "include_premieres",
+};
+
+export async function updateChannelVideoTypes(
+  profileId: string,
+  channelId: string,
+  videoTypes: VideoTypePreferences
+): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("profiles_youtube_channels")
+    .update(
+      Object.fromEntries(
+        Object.entries(VIDEO_TYPE_PREFERENCE_COLUMNS).map(([type, column]) => [
+          column,
+          videoTypes[type as VideoType],
+        ])
+      )
+    )
+    .eq("profile_id", profileId)
+    .eq("id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to update channel video types", {
+      prefix: "Supabase",
+      data: { error: error.message, profileId, channelId },
+    });
+    throw error;
+  }
+}
+
+export async function updateChannelCaptionLanguage(
+  profileId: string,
+  channelId: string,
+  captionLanguage: string | null
+): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("profiles_youtube_channels")
+    .update({ caption_language: captionLanguage })
+    .eq("profile_id", profileId)
+    .eq("id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to update channel caption language", {
+      prefix: "Supabase",
+      data: { error: error.message, profileId, channelId },
+    });
+    throw error;
+  }
+}
+
+export async function updateChannelSummaryFocus(
+  profileId: string,
+  channelId: string,
+  summaryFocus: string | null
+): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("profiles_youtube_channels")
+    .update({ summary_focus: summaryFocus })
+    .eq("profile_id", profileId)
+    .eq("id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to update channel summary focus", {
+      prefix: "Supabase",
+      data: { error: error.message, profileId, channelId },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Subscribers of a channel, optionally narrowed down
+ * @param channelId - YouTube channel ID
+ * @param filter - Which subscribers to keep
+ */
+export async function getChannelSubscribers(
+  channelId: string,
+  filter: ChannelSubscriberFilter = {}
+): Promise<ChannelSubscriber[]> {
+  let query = supabaseServicePublic
+    .from("profiles_youtube_channels")
+    .select(
+      "profile_id, profiles!inner(notify_without_summary, summary_language)"
+    )
+    .eq("youtube_channel_id", channelId);
+  if (filter.profileId) {
+    query = query.eq("profile_id", filter.profileId);
+  }
+  if (filter.videoType) {
+    query = query.eq(VIDEO_TYPE_PREFERENCE_COLUMNS[filter.videoType], true);
+  }
+  if (filter.notifyWithoutSummary) {
+    query = query.eq("profiles.notify_without_summary", true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    logger.error("❌ Failed to fetch channel subscribers", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+
+  return data.map((row) => ({
+    profileId: row.profile_id,
+    summaryLanguage: getJoinedRow(row.profiles).summary_language,
+  }));
+}
+
+/**
+ * Subscribers of a channel who are within their plan limits
+ * @param channelId - YouTube channel ID
+ */
+export async function getEligibleProfileIds(
+  channelId: string
+): Promise<string[]> {
+  const { data, error } = await supabaseServicePublic.rpc(
+    "get_eligible_notification_profiles",
+    { channel_id_param: channelId }
+  );
+  if (error) {
+    logger.error("❌ Failed to fetch eligible profiles", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+
+  return ((data ?? []) as EligibleProfile[]).map(
+    (profile) => profile.profile_id
+  );
+}
+
+/**
+ * Caption and summary languages wanted by a channel's subscribers
+ * @param channelId - YouTube channel ID
+ * @param targetProfileId - Only this subscriber, for backfills
+ */
+export async function getSubscriberLanguagePreferences(
+  channelId: string,
+  targetProfileId?: string
+): Promise<SubscriberLanguagePreference[]> {
+  let query = supabaseServicePublic
+    .from("profiles_youtube_channels")
+    .select("caption_language, profiles!inner(summary_language)")
+    .eq("youtube_channel_id", channelId);
+  if (targetProfileId) {
+    query = query.eq("profile_id", targetProfileId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    logger.error("❌ Failed to fetch subscriber languages", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+
+  return data.map((row) => ({
+    captionLanguage: row.caption_language,
+    summaryLanguage: getJoinedRow(row.profiles).summary_language,
+  }));
+}
+
+/**
+ * Subscribers of a channel who picked a summary style or focus and still
+ * have personalized summaries left on their plan this period
+ * @param channelId - YouTube channel ID
+ * @param targetProfileId - Only this subscriber, for backfills
+ */
+export async function getSubscriberPersonalizations(
+  channelId: string,
+  targetProfileId?: string
+): Promise<SummaryPersonalization[]> {
+  let query = supabaseServicePublic
+    .from("profiles_youtube_channels")
+    .select(
+      "profile_id, summary_focus, profiles!inner(summary_language, summary_style)"
+    )
+    .eq("youtube_channel_id", channelId);
+  if (targetProfileId) {
+    query = query.eq("profile_id", targetProfileId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    logger.error("❌ Failed to fetch subscriber summary styles", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+
+  const personalizations = data
+    .map((row): SummaryPersonalization => {
+      const profile = getJoinedRow(row.profiles);
+      return {
+        profileId: row.profile_id,
+        summaryLanguage: profile.summary_language,
+        style: profile.summary_style ?? "standard",
+        focus: normalizeSummaryFocus(row.summary_focus),
+      };
+    })
+    .filter(isPersonalized);
+  if (personalizations.length === 0) return [];
+
+  const { data: subscriptions, error: subscriptionsError } =
+    await supabaseServicePublic
+      .from("subscriptions")
+      .select(
+        "profile_id, personalized_usage_count, plans!inner(personalized_summary_limit)"
+      )
+      .in(
+        "profile_id",
+        personalizations.map((row) => row.profileId)
+      )
+      .eq("status", "active");
+  if (subscriptionsError) {
+    logger.error("❌ Failed to fetch personalized summary usage", {
+      prefix: "Supabase",
+      data: { error: subscriptionsError.message, channelId },
+    });
+    throw subscriptionsError;
+  }
+
+  return filterWithinPersonalizedLimit(
+    personalizations,
+    subscriptions.map((subscription) => ({
+      profileId: subscription.profile_id,
+      used: subscription.personalized_usage_count,
+      limit: getJoinedRow(subscription.plans).personalized_summary_limit,
+    }))
+  );
+}
+
 export async function deleteProfileChannel(
   profileId: string,
   channelId: string
@@ -407,59 +828,613 @@ export async function updateChannelProcessingStatus(
     .eq("id", channelId);
 }
 
-export async function removeYouTubeChannel(
-  profileId: string,
-  channelId: string
-) {
+// The hub's lease when its verification doesn't name one
+const DEFAULT_HUB_LEASE_SECONDS = 5 * 24 * 60 * 60;
+
+/**
+ * Marks the channel's hub subscription verified until its lease runs out
+ * @param leaseSeconds - `hub.lease_seconds` of the verification, if any
+ */
+export async function recordHubLease(
+  channelId: string,
+  leaseSeconds: number | null
+): Promise<void> {
+  const now = new Date();
+  const effectiveLeaseSeconds = leaseSeconds || DEFAULT_HUB_LEASE_SECONDS;
+  const { error } = await supabaseAnon
+    .from("youtube_channels")
+    .update({
+      hub_lease_seconds: effectiveLeaseSeconds,
+      hub_lease_expires_at: new Date(
+        now.getTime() + effectiveLeaseSeconds * 1000
+      ).toISOString(),
+      hub_verified_at: now.toISOString(),
+      hub_state: "verified",
+      hub_state_changed_at: now.toISOString(),
+      hub_state_reason: null,
+    })
+    .eq("id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to record hub lease", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId, leaseSeconds },
+    });
+    throw error;
+  }
+}
+
+export async function clearHubLease(channelId: string): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("youtube_channels")
+    .update({
+      hub_lease_seconds: null,
+      hub_lease_expires_at: null,
+      hub_state: "unsubscribed",
+      hub_state_changed_at: new Date().toISOString(),
+      hub_state_reason: null,
+    })
+    .eq("id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to clear hub lease", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+}
+
+/**
+ * @returns The channel's hub state, which is null before its first
+ * subscribe request, or null when the channel is unknown
+ */
+export async function getHubSubscriptionState(
+  channelId: string
+): Promise<{ state: HubSubscriptionState | null } | null> {
+  const { data, error } = await supabaseAnon
+    .from("youtube_channels")
+    .select("hub_state")
+    .eq("id", channelId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("❌ Error fetching hub subscription state", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+
+  return data ? { state: data.hub_state } : null;
+}
+
+export async function markHubSubscriptionRequested(
+  channelId: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAnon
+    .from("youtube_channels")
+    .update({
+      hub_state: "requested",
+      hub_state_changed_at: now,
+      hub_state_reason: null,
+      hub_requested_at: now,
+    })
+    .eq("id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to mark hub subscription requested", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+}
+
+export async function markHubSubscriptionDenied(
+  channelId: string,
+  reason: string | null
+): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("youtube_channels")
+    .update({
+      hub_state: "denied",
+      hub_state_changed_at: new Date().toISOString(),
+      hub_state_reason: reason,
+    })
+    .eq("id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to mark hub subscription denied", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId, reason },
+    });
+    throw error;
+  }
+}
+
+export async function expireLapsedHubLeases(): Promise<number> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAnon
+    .from("youtube_channels")
+    .update({ hub_state: "expired", hub_state_changed_at: now })
+    .eq("hub_state", "verified")
+    .lt("hub_lease_expires_at", now)
+    .select("id");
+
+  if (error) {
+    logger.error("❌ Failed to expire lapsed hub leases", {
+      prefix: "Supabase",
+      data: { error: error.message },
+    });
+    throw error;
+  }
+
+  return data?.length ?? 0;
+}
+
+export async function removeYouTubeChannel(
+  profileId: string,
+  channelId: string
+) {
+  const { error } = await supabaseAnon
+    .from("youtube_channels")
+    .delete()
+    .match({ profile_id: profileId, channel_id: channelId });
+
+  if (error) {
+    logger.error("❌ Failed to remove channel", {
+      prefix: "Supabase",
+      data: { error: error.message, profileId, channelId },
+    });
+    throw error;
+  }
+}
+
+export async function getStoredCaptions(
+  videoId: string
+): Promise<CaptionData | null> {
+  const { data, error } = await supabaseAnon
+    .from("video_captions")
+    .select(
+      "transcript, language, title, provider, segments, machine_transcribed"
+    )
+    .eq("video_id", videoId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return {
+    transcript: data.transcript,
+    language: data.language,
+    title: data.title,
+    duration: getSegmentsDuration(data.segments),
+    provider: data.provider,
+    segments: data.segments,
+    machineTranscribed: data.machine_transcribed,
+  };
+}
+
+export async function storeCaptions(
+  videoId: string,
+  captions: CaptionData
+): Promise<void> {
+  const { error } = await supabaseAnon.from("video_captions").upsert({
+    video_id: videoId,
+    transcript: captions.transcript,
+    language: captions.language,
+    title: captions.title,
+    provider: captions.provider ?? null,
+    segments: captions.segments ?? null,
+    machine_transcribed: captions.machineTranscribed ?? false,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    logger.error("❌ Failed to store captions", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId },
+    });
+    throw error;
+  }
+}
+
+export async function getStoredAIContent(
+  videoId: string,
+  language: string
+): Promise<VideoAIContent | null> {
+  try {
+    const { data, error } = await supabaseAnon
+      .from("video_ai_data")
+      .select("*")
+      .eq("video_id", videoId)
+      .eq("language", language)
+      .single();
+
+    if (error || !data) return null;
+    return data;
+  } catch (error) {
+    logger.error("❌ Error fetching AI content", {
+      prefix: "Supabase",
+      data: { error: error instanceof Error ? error.message : "Unknown error" },
+    });
+    return null;
+  }
+}
+
+export async function storeAIContent(
+  videoId: string,
+  language: string,
+  aiContent: VideoAIContent
+): Promise<void> {
+  try {
+    const { error } = await supabaseAnon.from("video_ai_data").upsert({
+      video_id: videoId,
+      language,
+      content: aiContent.content,
+      model: aiContent.model,
+      provider: aiContent.provider ?? null,
+    });
+
+    if (error) {
+      logger.error("❌ Failed to store AI content", {
+        prefix: "Supabase",
+        data: { error: error.message, videoId },
+      });
+      throw error;
+    }
+  } catch (error) {
+    logger.error("💥 Error storing AI content", {
+      prefix: "Supabase",
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+        videoId,
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * AI content beyond the summary stored for a video
+ * @param videoId - YouTube video ID
+ * @param language - Language the content is written in
+ */
+export async function getStoredInsights(
+  videoId: string,
+  language: string
+): Promise<StoredVideoInsights> {
+  const { data, error } = await supabaseServicePublic
+    .from("video_ai_insights")
+    .select("feature, content")
+    .eq("video_id", videoId)
+    .eq("language", language);
+
+  if (error) {
+    logger.error("❌ Failed to fetch AI insights", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId, language },
+    });
+    throw error;
+  }
+
+  return {
+    features: data.map((row) => row.feature),
+    insights: Object.fromEntries(
+      data.filter((row) => row.content).map((row) => [row.feature, row.content])
+    ),
+  };
+}
+
+/**
+ * Stores one row per generated feature, an empty one when nothing was
+ * found, so only features a plan adds later are generated again
+ * @param videoId - YouTube video ID
+ * @param language - Language the content is written in
+ * @param features - Features that were generated
+ * @param insights - What the model found
+ */
+export async function storeInsights(
+  videoId: string,
+  language: string,
+  features: AIContentFeature[],
+  insights: VideoInsights,
+  model: string,
+  provider: SummaryProviderName
+): Promise<void> {
+  const { error } = await supabaseServicePublic
+    .from("video_ai_insights")
+    .upsert(
+      features.map((feature) => ({
+        video_id: videoId,
+        language,
+        feature,
+        content: insights[feature] ?? null,
+        model,
+        provider,
+      }))
+    );
+
+  if (error) {
+    logger.error("❌ Failed to store AI insights", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId, language },
+    });
+    throw error;
+  }
+}
+
+/**
+ * A summary written for one style and focus, shared by every subscriber
+ * who picked the same
+ * @param focusHash - From `getFocusHash`
+ */
+export async function getStoredSummaryVariant(
+  videoId: string,
+  language: string,
+  style: SummaryStyle,
+  focusHash: string
+): Promise<VideoAIContent | null> {
+  const { data, error } = await supabaseServicePublic
+    .from("video_ai_variants")
+    .select("content, model, provider")
+    .eq("video_id", videoId)
+    .eq("language", language)
+    .eq("style", style)
+    .eq("instruction_hash", focusHash)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("❌ Failed to fetch summary variant", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId, language, style },
+    });
+    throw error;
+  }
+  return data;
+}
+
+export async function storeSummaryVariant(
+  videoId: string,
+  language: string,
+  style: SummaryStyle,
+  focusHash: string,
+  aiContent: VideoAIContent
+): Promise<void> {
+  const { error } = await supabaseServicePublic
+    .from("video_ai_variants")
+    .upsert({
+      video_id: videoId,
+      language,
+      style,
+      instruction_hash: focusHash,
+      content: aiContent.content,
+      model: aiContent.model,
+      provider: aiContent.provider ?? null,
+    });
+
+  if (error) {
+    logger.error("❌ Failed to store summary variant", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId, language, style },
+    });
+    throw error;
+  }
+}
+
+export async function getStoredEmailTemplate(
+  videoId: string,
+  language: string
+): Promise<string | null> {
+  const { data, error } = await supabaseAnon
+    .from("video_email_templates")
+    .select("email_content")
+    .eq("video_id", videoId)
+    .eq("language", language)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data.email_content;
+}
+
+export async function storeEmailTemplate(
+  videoId: string,
+  language: string,
+  emailContent: string
+): Promise<void> {
+  const { error } = await supabaseAnon.from("video_email_templates").upsert({
+    video_id: videoId,
+    language,
+    email_content: emailContent,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    logger.error("❌ Failed to store email template", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Followed channels never polled or due again, the longest waiting first
+ */
+export async function getChannelsDueForFeedPoll(
+  limit: number
+): Promise<FeedPollChannel[]> {
+  const { data, error } = await supabaseAnon
+    .from("youtube_channels")
+    .select(
+      "id, last_video_id, last_video_date, profiles_youtube_channels!inner(id)"
+    )
+    .or(
+      `next_feed_poll_at.is.null,next_feed_poll_at.lte.${new Date().toISOString()}`
+    )
+    .order("next_feed_poll_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error("❌ Failed to fetch channels due for polling", {
+      prefix: "Supabase",
+      data: { error: error.message },
+    });
+    throw error;
+  }
+
+  return (data ?? []).map(({ id, last_video_id, last_video_date }) => ({
+    id,
+    last_video_id,
+    last_video_date,
+  }));
+}
+
+export async function updateChannelFeedPoll(
+  channelId: string,
+  update: FeedPollUpdate
+): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("youtube_channels")
+    .update(update)
+    .eq("id", channelId);
+
+  if (error) {
+    logger.error("❌ Failed to update channel feed poll", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+}
+
+export async function registerVideo(video: {
+  videoId: string;
+  channelId: string;
+  title: string;
+  published: string;
+  updated: string;
+}): Promise<VideoRegistration> {
+  // Insert only if unseen, so concurrent deliveries can't both count as new
+  const { data: inserted, error: insertError } = await supabaseAnon
+    .from("youtube_videos")
+    .upsert(
+      {
+        id: video.videoId,
+        channel_id: video.channelId,
+        title: video.title,
+        published_at: video.published,
+        first_seen_at: new Date().toISOString(),
+        last_updated_at: video.updated,
+      },
+      { onConflict: "id", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (insertError) {
+    logger.error("❌ Failed to register video", {
+      prefix: "Supabase",
+      data: { error: insertError.message, videoId: video.videoId },
+    });
+    throw insertError;
+  }
+
+  if (inserted?.length) {
+    return { isNew: true, previousTitle: null, deletedAt: null };
+  }
+
+  const { data: existing, error: fetchError } = await supabaseAnon
+    .from("youtube_videos")
+    .select("title, deleted_at")
+    .eq("id", video.videoId)
+    .single();
+
+  if (fetchError) {
+    logger.error("❌ Error fetching registered video", {
+      prefix: "Supabase",
+      data: { error: fetchError.message, videoId: video.videoId },
+    });
+    throw fetchError;
+  }
+
+  if (!existing.deleted_at) {
+    await updateVideoMetadata(video.videoId, video.title, video.updated);
+  }
+
+  return {
+    isNew: false,
+    previousTitle: existing.title,
+    deletedAt: existing.deleted_at,
+  };
+}
+
+export async function unregisterVideo(videoId: string): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("youtube_videos")
+    .delete()
+    .eq("id", videoId)
+    .is("deleted_at", null);
+
+  if (error) {
+    logger.error("❌ Failed to unregister video", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId },
+    });
+  }
+}
+
+export async function updateVideoMetadata(
+  videoId: string,
+  title: string,
+  updated: string
+): Promise<void> {
   const { error } = await supabaseAnon
-    .from("youtube_channels")
-    .delete()
-    .match({ profile_id: profileId, channel_id: channelId });
+    .from("youtube_videos")
+    .update({ title, last_updated_at: updated })
+    .eq("id", videoId);
 
   if (error) {
-    logger.error("❌ Failed to remove channel", {
+    logger.error("❌ Failed to update video metadata", {
       prefix: "Supabase",
-      data: { error: error.message, profileId, channelId },
+      data: { error: error.message, videoId },
     });
     throw error;
   }
-}
 
-export async function getStoredCaptions(
-  videoId: string
-): Promise<CaptionData | null> {
-  const { data, error } = await supabaseAnon
+  // Keep the stored caption title in sync, it is used as the email subject
+  const { error: captionError } = await supabaseAnon
     .from("video_captions")
-    .select("transcript, language, title")
-    .eq("video_id", videoId)
-    .single();
+    .update({ title })
+    .eq("video_id", videoId);
 
-  if (error || !data) {
-    return null;
+  if (captionError) {
+    logger.error("❌ Failed to update caption title", {
+      prefix: "Supabase",
+      data: { error: captionError.message, videoId },
+    });
+    throw captionError;
   }
-
-  return {
-    transcript: data.transcript,
-    language: data.language,
-    title: data.title,
-    duration: 0,
-  };
 }
 
-export async function storeCaptions(
+export async function markVideoDeleted(
   videoId: string,
-  captions: CaptionData
+  channelId: string | null,
+  deletedAt: string
 ): Promise<void> {
-  const { error } = await supabaseAnon.from("video_captions").upsert({
-    video_id: videoId,
-    transcript: captions.transcript,
-    language: captions.language,
-    title: captions.title,
-    updated_at: new Date().toISOString(),
+  const { error } = await supabaseAnon.from("youtube_videos").upsert({
+    id: videoId,
+    channel_id: channelId,
+    deleted_at: deletedAt,
   });
 
   if (error) {
-    logger.error("❌ Failed to store captions", {
+    logger.error("❌ Failed to mark video as deleted", {
       prefix: "Supabase",
       data: { error: error.message, videoId },
     });
@@ -467,52 +1442,89 @@ export async function storeCaptions(
   }
 }
 
-export async function getStoredAIContent(
+export async function isVideoDeleted(videoId: string): Promise<boolean> {
+  const { data, error } = await supabaseAnon
+    .from("youtube_videos")
+    .select("deleted_at")
+    .eq("id", videoId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("❌ Error checking if video is deleted", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId },
+    });
+    throw error;
+  }
+
+  return !!data?.deleted_at;
+}
+
+export async function cancelPendingNotifications(
   videoId: string
-): Promise<VideoAIContent | null> {
-  try {
-    const { data, error } = await supabaseAnon
-      .from("video_ai_data")
-      .select("*")
-      .eq("video_id", videoId)
-      .single();
+): Promise<number> {
+  const { data, error } = await supabaseAnon
+    .from("notification_emails")
+    .update({ status: "cancelled" })
+    .eq("video_id", videoId)
+    .eq("status", "pending")
+    .select("id");
 
-    if (error || !data) return null;
-    return data;
-  } catch (error) {
-    logger.error("❌ Error fetching AI content", {
+  if (error) {
+    logger.error("❌ Failed to cancel pending notifications", {
       prefix: "Supabase",
-      data: { error: error instanceof Error ? error.message : "Unknown error" },
+      data: { error: error.message, videoId },
     });
-    return null;
+    throw error;
   }
+
+  return data?.length ?? 0;
 }
 
-export async function storeAIContent(
+/**
+ * Which of the profiles already have a notification about the video
+ * @param videoId - YouTube video ID
+ * @param profileIds - Profiles to check
+ */
+export async function getNotifiedProfileIds(
   videoId: string,
-  aiContent: VideoAIContent
+  profileIds: string[]
+): Promise<string[]> {
+  const { data, error } = await supabaseServicePublic
+    .from("notification_emails")
+    .select("profile_id")
+    .eq("video_id", videoId)
+    .in("profile_id", profileIds);
+
+  if (error) {
+    logger.error("❌ Failed to fetch existing notifications", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId },
+    });
+    throw error;
+  }
+
+  return data.map((row) => row.profile_id);
+}
+
+/**
+ * Saves pending notifications. The unique profile/video constraint drops
+ * rows a concurrent run inserted.
+ */
+export async function createNotifications(
+  notifications: NewEmailNotification[]
 ): Promise<void> {
-  try {
-    const { error } = await supabaseAnon.from("video_ai_data").upsert({
-      video_id: videoId,
-      content: aiContent.content,
-      model: aiContent.model,
+  const { error } = await supabaseServicePublic
+    .from("notification_emails")
+    .upsert(notifications, {
+      onConflict: "profile_id,video_id",
+      ignoreDuplicates: true,
     });
 
-    if (error) {
-      logger.error("❌ Failed to store AI content", {
-        prefix: "Supabase",
-        data: { error: error.message, videoId },
-      });
-      throw error;
-    }
-  } catch (error) {
-    logger.error("💥 Error storing AI content", {
+  if (error) {
+    logger.error("❌ Failed to save notifications", {
       prefix: "Supabase",
-      data: {
-        error: error instanceof Error ? error.message : "Unknown error",
-        videoId,
-      },
+      data: { error: error.message },
     });
     throw error;
   }
@@ -641,6 +1653,27 @@ export async function incrementSubscriptionUsage(
   }
 }
 
+/**
+ * Counts a sent personalized summary against the plan's
+ * `personalized_summary_limit`, in one update in the database
+ */
+export async function incrementPersonalizedSummaryUsage(
+  profileId: string
+): Promise<void> {
+  const { error } = await supabaseServicePublic.rpc(
+    "increment_personalized_usage",
+    { profile_id_param: profileId }
+  );
+
+  if (error) {
+    logger.error("❌ Failed to increment personalized summary usage", {
+      prefix: "Supabase",
+      data: { error: error.message, profileId },
+    });
+    throw error;
+  }
+}
+
 export async function checkAndRecordAlert(
   profileId: string,
   type: AlertType
@@ -942,6 +1975,7 @@ export async function checkAndHandleUsagePeriodReset(profileId: string) {
         .from("subscriptions")
         .update({
           usage_count: 0,
+          personalized_usage_count: 0,
           start_date: newStartDate.toISOString(),
           end_date: newEndDate.toISOString(),
         })
@@ -1067,6 +2101,7 @@ export async function createSubscription(
           plan_id: planId,
           status: "active",
           usage_count: 0,
+          personalized_usage_count: 0,
           start_date: startDate.toISOString(),
           end_date: endDate.toISOString(),
         },
@@ -1108,6 +2143,7 @@ export async function renewSubscription(
       .update({
         status: "active",
         usage_count: 0,
+        personalized_usage_count: 0,
         start_date: startDate.toISOString(),
         end_date: endDate.toISOString(),
       })
@@ -1142,3 +2178,390 @@ export async function getFreePlanId(): Promise<string> {
     return "";
   }
 }
+
+// Instances of a running worker that stopped beating this long ago are gone
+const HEARTBEAT_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Upserts a worker instance's heartbeat and removes instances of the same
+ * worker that stopped long ago, such as the ones before a restart. A
+ * worker whose instances all stopped keeps its rows and shows as stale.
+ * @returns Whether an admin paused the worker
+ */
+export async function recordWorkerHeartbeat(
+  heartbeat: WorkerHeartbeatRecord
+): Promise<boolean> {
+  const { error } = await supabaseAnon
+    .from("worker_heartbeats")
+    .upsert(heartbeat, { onConflict: "worker_name,instance_id" });
+
+  if (error) {
+    logger.error("❌ Failed to record worker heartbeat", {
+      prefix: "Supabase",
+      data: { error: error.message, workerName: heartbeat.worker_name },
+    });
+    throw error;
+  }
+
+  const { error: pruneError } = await supabaseAnon
+    .from("worker_heartbeats")
+    .delete()
+    .eq("worker_name", heartbeat.worker_name)
+    .lt(
+      "last_loop_at",
+      new Date(Date.now() - HEARTBEAT_RETENTION_MS).toISOString()
+    );
+
+  if (pruneError) {
+    logger.warn("⚠️ Failed to prune old worker heartbeats", {
+      prefix: "Supabase",
+      data: { error: pruneError.message, workerName: heartbeat.worker_name },
+    });
+  }
+
+  const { data: control } = await supabaseAnon
+    .from("worker_controls")
+    .select("paused")
+    .eq("worker_name", heartbeat.worker_name)
+    .maybeSingle();
+
+  return control?.paused ?? false;
+}
+
+export async function getWorkerStatuses(): Promise<WorkerStatus[]> {
+  const [{ data: heartbeats, error }, { data: controls }] = await Promise.all([
+    supabaseAnon
+      .from("worker_heartbeats")
+      .select("*")
+      .order("worker_name")
+      .returns<WorkerHeartbeatRecord[]>(),
+    supabaseAnon.from("worker_controls").select("worker_name, paused"),
+  ]);
+
+  if (error) {
+    logger.error("❌ Failed to fetch worker heartbeats", {
+      prefix: "Supabase",
+      data: { error: error.message },
+    });
+    throw error;
+  }
+
+  const pausedWorkers = new Set(
+    controls?.filter((c) => c.paused).map((c) => c.worker_name) || []
+  );
+
+  return (heartbeats || []).map((heartbeat) => {
+    // Allow two missed loops plus a heartbeat interval before flagging it
+    const staleAfterMs = (heartbeat.expected_interval_seconds * 2 + 60) * 1000;
+    return {
+      ...heartbeat,
+      paused: pausedWorkers.has(heartbeat.worker_name),
+      stale:
+        Date.now() - new Date(heartbeat.last_loop_at).getTime() > staleAfterMs,
+    };
+  });
+}
+
+export async function setWorkerPaused(
+  workerName: string,
+  paused: boolean,
+  profileId: string
+): Promise<void> {
+  const { error } = await supabaseAnon.from("worker_controls").upsert({
+    worker_name: workerName,
+    paused,
+    updated_by: profileId,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    logger.error("❌ Failed to update worker control", {
+      prefix: "Supabase",
+      data: { error: error.message, workerName, paused },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Current number of messages in each PGMQ queue
+ */
+export async function getQueueDepths(): Promise<Record<string, number>> {
+  const { data, error } = await supabaseAnon.rpc("get_queue_depths");
+
+  if (error) {
+    logger.error("❌ Failed to fetch queue depths", {
+      prefix: "Supabase",
+      data: { error: error.message },
+    });
+    throw error;
+  }
+
+  return Object.fromEntries(
+    ((data || []) as { queue_name: string; queue_length: number }[]).map(
+      (queue) => [queue.queue_name, queue.queue_length]
+    )
+  );
+}
+
+export async function countPendingNotifications(): Promise<number> {
+  const { count, error } = await supabaseAnon
+    .from("notification_emails")
+    .select("id", { count: "exact", head: true })
+    .eq("status", "pending");
+
+  if (error) {
+    logger.error("❌ Failed to count pending notifications", {
+      prefix: "Supabase",
+      data: { error: error.message },
+    });
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Claims a pipeline idempotency key for one attempt. A lease that runs out
+ * lets another worker take over a crashed attempt.
+ * @param key - Stage and video the work belongs to
+ * @param owner - Unique ID of this attempt
+ * @param leaseSeconds - How long other workers stay locked out
+ */
+export async function acquireIdempotencyLease(
+  key: string,
+  owner: string,
+  leaseSeconds: number
+): Promise<IdempotencyLeaseResult> {
+  const { data, error } = await supabaseAnon.rpc("acquire_idempotency_lease", {
+    key_param: key,
+    owner_param: owner,
+    lease_seconds_param: leaseSeconds,
+  });
+
+  if (error) {
+    logger.error("❌ Failed to acquire idempotency lease", {
+      prefix: "Supabase",
+      data: { error: error.message, key },
+    });
+    throw error;
+  }
+
+  return data as IdempotencyLeaseResult;
+}
+
+/**
+ * Marks the key as done, so later deliveries of the same work are skipped
+ */
+export async function completeIdempotencyKey(
+  key: string,
+  owner: string
+): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("pipeline_idempotency_keys")
+    .update({
+      status: "completed",
+      completed_at: new Date().toISOString(),
+      lease_owner: null,
+      lease_expires_at: null,
+    })
+    .eq("key", key)
+    .eq("lease_owner", owner);
+
+  if (error) {
+    logger.error("❌ Failed to complete idempotency key", {
+      prefix: "Supabase",
+      data: { error: error.message, key },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Gives up a lease after a failed attempt so a retry can claim it right away
+ */
+export async function releaseIdempotencyLease(
+  key: string,
+  owner: string
+): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("pipeline_idempotency_keys")
+    .update({ lease_owner: null, lease_expires_at: null })
+    .eq("key", key)
+    .eq("lease_owner", owner)
+    .eq("status", "in_progress");
+
+  if (error) {
+    logger.error("❌ Failed to release idempotency lease", {
+      prefix: "Supabase",
+      data: { error: error.message, key },
+    });
+    throw error;
+  }
+}
+
+interface SubscriberPlan {
+  transcription_minute_limit: number;
+  summary_provider: string | null;
+  monthly_cost: number;
+  features: Partial<PlanFeatures> | null;
+}
+
+interface SubscriberPlan {
+  profileId: string;
+  transcription_minute_limit: number;
+  summary_provider: string | null;
+  monthly_cost: number;
+  features: Partial<PlanFeatures> | null;
+}
+
+/**
+ * Plans of the channel's subscribers who are within their limits
+ * @param channelId - YouTube channel ID
+ * @param targetProfileId - Only this subscriber, for backfills
+ */
+async function getEligibleSubscriberPlans(
+  channelId: string,
+  targetProfileId?: string
+): Promise<SubscriberPlan[]> {
+  const profileIds = (await getEligibleProfileIds(channelId)).filter(
+    (id) => !targetProfileId || id === targetProfileId
+  );
+  if (profileIds.length === 0) return [];
+
+  const { data, error } = await supabaseServicePublic
+    .from("subscriptions")
+    .select(
+      "profile_id, plans!inner(transcription_minute_limit, summary_provider, monthly_cost, features)"
+    )
+    .in("profile_id", profileIds)
+    .eq("status", "active");
+  if (error) {
+    logger.error("❌ Failed to fetch subscriber plans", {
+      prefix: "Supabase",
+      data: { error: error.message, channelId },
+    });
+    throw error;
+  }
+
+  return data.map((row) => ({
+    profileId: row.profile_id,
+    ...getJoinedRow(row.plans),
+  }));
+}
+
+/**
+ * AI content beyond the summary that a plan enables
+ */
+function getEnabledAIContentFeatures(plan: SubscriberPlan): AIContentFeature[] {
+  return AI_CONTENT_FEATURES.map(({ key }) => key).filter(
+    (feature) => plan.features?.[feature]?.enabled
+  );
+}
+
+/**
+ * Longest video the channel's eligible subscribers may have transcribed
+ * from audio, the most generous plan wins
+ * @param channelId - YouTube channel ID
+ * @param targetProfileId - Only this subscriber, for backfills
+ * @returns Seconds, 0 when no plan allows speech-to-text
+ */
+export async function getTranscriptionLimitSeconds(
+  channelId: string,
+  targetProfileId?: string
+): Promise<number> {
+  const plans = await getEligibleSubscriberPlans(channelId, targetProfileId);
+  return (
+    Math.max(0, ...plans.map((plan) => plan.transcription_minute_limit)) * 60
+  );
+}
+
+/**
+ * Summary provider set on the priciest plan among the channel's eligible
+ * subscribers, since one summary is shared by all of them
+ * @param channelId - YouTube channel ID
+ * @param targetProfileId - Only this subscriber, for backfills
+ * @returns Provider name, or null to use the configured default
+ */
+export async function getPlanSummaryProvider(
+  channelId: string,
+  targetProfileId?: string
+): Promise<string | null> {
+  const plans = await getEligibleSubscriberPlans(channelId, targetProfileId);
+  const [plan] = plans
+    .filter((plan) => plan.summary_provider)
+    .sort((a, b) => Number(b.monthly_cost) - Number(a.monthly_cost));
+  return plan?.summary_provider ?? null;
+}
+
+/**
+ * AI content beyond the summary that any of the channel's eligible
+ * subscribers' plans enables, the features to generate for the video
+ * @param channelId - YouTube channel ID
+ * @param targetProfileId - Only this subscriber, for backfills
+ */
+export async function getPlanAIContentFeatures(
+  channelId: string,
+  targetProfileId?: string
+): Promise<AIContentFeature[]> {
+  const plans = await getEligibleSubscriberPlans(channelId, targetProfileId);
+  const features = new Set(plans.flatMap(getEnabledAIContentFeatures));
+  return AI_CONTENT_FEATURES.map(({ key }) => key).filter((feature) =>
+    features.has(feature)
+  );
+}
+
+/**
+ * AI content beyond the summary each of the channel's eligible subscribers
+ * gets, as their own plan enables
+ * @param channelId - YouTube channel ID
+ * @param targetProfileId - Only this subscriber, for backfills
+ */
+export async function getSubscriberAIContentFeatures(
+  channelId: string,
+  targetProfileId?: string
+): Promise<SubscriberAIContentFeatures[]> {
+  const plans = await getEligibleSubscriberPlans(channelId, targetProfileId);
+  return plans.map((plan) => ({
+    profileId: plan.profileId,
+    features: getEnabledAIContentFeatures(plan),
+  }));
+}
+
+export async function getStoredVideoType(
+  videoId: string
+): Promise<VideoType | null> {
+  const { data, error } = await supabaseAnon
+    .from("youtube_videos")
+    .select("video_type")
+    .eq("id", videoId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("❌ Failed to fetch video type", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId },
+    });
+    throw error;
+  }
+
+  return data?.video_type ?? null;
+}
+
+export async function storeVideoType(
+  videoId: string,
+  videoType: VideoType
+): Promise<void> {
+  const { error } = await supabaseAnon
+    .from("youtube_videos")
+    .update({ video_type: videoType })
+    .eq("id", videoId);
+
+  if (error) {
+    logger.error("❌ Failed to store video type", {
+      prefix: "Supabase",
+      data: { error: error.message, videoId, videoType },
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,176 @@
+import { TranscriptProviderName, TranscriptProviderStats } from "@/lib/types";
+import {
+  ProviderTranscript,
+  TranscriptProvider,
+  getTranscriptProviders,
+} from "@/lib/transcript-providers";
+import { logger } from "@/lib/logger";
+
+const PROVIDER_TIMEOUT_MS = parseInt(
+  process.env.TRANSCRIPT_PROVIDER_TIMEOUT_MS || "30000",
+  10
+);
+// Consecutive failures after which a provider is skipped for a while
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_OPEN_MS = 5 * 60 * 1000;
+
+interface ProviderState {
+  attempts: number;
+  successes: number;
+  notFound: number;
+  failures: number;
+  totalLatencyMs: number;
+  consecutiveFailures: number;
+  circuitOpenUntil: number | null;
+}
+
+const providerStates = new Map<TranscriptProviderName, ProviderState>();
+
+function getProviderState(name: TranscriptProviderName): ProviderState {
+  let state = providerStates.get(name);
+  if (!state) {
+    state = {
+      attempts: 0,
+      successes: 0,
+      notFound: 0,
+      failures: 0,
+      totalLatencyMs: 0,
+      consecutiveFailures: 0,
+      circuitOpenUntil: null,
+    };
+    providerStates.set(name, state);
+  }
+  return state;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function tryProvider(
+  provider: TranscriptProvider,
+  videoId: string,
+  languages: string[]
+): Promise<ProviderTranscript | null> {
+  const state = getProviderState(provider.name);
+  const startedAt = Date.now();
+  state.attempts++;
+
+  try {
+    const result = await withTimeout(
+      provider.fetchTranscript(videoId, {
+        timeoutMs: PROVIDER_TIMEOUT_MS,
+        languages,
+      }),
+      PROVIDER_TIMEOUT_MS
+    );
+
+    // Answering at all closes the circuit, captions or not
+    state.consecutiveFailures = 0;
+    state.circuitOpenUntil = null;
+    if (result?.transcript) {
+      state.successes++;
+    } else {
+      state.notFound++;
+    }
+    return result?.transcript ? result : null;
+  } catch (error) {
+    state.failures++;
+    state.consecutiveFailures++;
+    if (state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      state.circuitOpenUntil = Date.now() + CIRCUIT_OPEN_MS;
+      logger.warn("🔌 Transcript provider circuit opened", {
+        prefix: "Captions",
+        data: {
+          provider: provider.name,
+          consecutiveFailures: state.consecutiveFailures,
+          openUntil: new Date(state.circuitOpenUntil).toISOString(),
+        },
+      });
+    }
+    throw error;
+  } finally {
+    state.totalLatencyMs += Date.now() - startedAt;
+  }
+}
+
+/**
+ * Asks each configured provider in turn until one has captions. A provider
+ * whose circuit is open is skipped; once the open period ends, the next
+ * call is let through as a trial.
+ * @param videoId - YouTube video ID
+ * @param languages - Preferred caption languages, best first
+ * @returns The transcript and the provider that found it, or null when
+ * no provider has captions for the video
+ * @throws When no provider could give an answer, so the caller retries
+ */
+export async function fetchTranscriptFromProviders(
+  videoId: string,
+  languages: string[] = []
+): Promise<(ProviderTranscript & { provider: TranscriptProviderName }) | null> {
+  let answered = false;
+  const errors: string[] = [];
+
+  for (const provider of getTranscriptProviders()) {
+    const state = getProviderState(provider.name);
+    if (state.circuitOpenUntil && state.circuitOpenUntil > Date.now()) {
+      errors.push(`${provider.name}: circuit open`);
+      continue;
+    }
+
+    try {
+      const result = await tryProvider(provider, videoId, languages);
+      answered = true;
+      if (result) {
+        logger.info("✅ Transcript found", {
+          prefix: "Captions",
+          data: { videoId, provider: provider.name },
+        });
+        return { ...result, provider: provider.name };
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      errors.push(`${provider.name}: ${message}`);
+      logger.warn("⚠️ Transcript provider failed, trying next", {
+        prefix: "Captions",
+        data: { videoId, provider: provider.name, error: message },
+      });
+    }
+  }
+
+  // At least one provider answered and none of them had captions
+  if (answered) {
+    return null;
+  }
+
+  throw new Error(`All transcript providers failed: ${errors.join("; ")}`);
+}
+
+export function getTranscriptProviderStats(): TranscriptProviderStats[] {
+  return getTranscriptProviders().map(({ name }) => {
+    const state = getProviderState(name);
+    const isOpen =
+      state.circuitOpenUntil !== null && state.circuitOpenUntil > Date.now();
+
+    return {
+      provider: name,
+      attempts: state.attempts,
+      successes: state.successes,
+      notFound: state.notFound,
+      failures: state.failures,
+      averageLatencyMs: state.attempts
+        ? Math.round(state.totalLatencyMs / state.attempts)
+        : null,
+      circuitOpenUntil: isOpen
+        ? new Date(state.circuitOpenUntil as number).toISOString()
+        : null,
+    };
+  });
+}
@@ -0,0 +1,262 @@
+import {
+  CaptionSegment,
+  TranscriptProviderName,
+  YouTubeCaptionTrack,
+} from "@/lib/types";
+import { TranscriptSegment, getTranscript } from "@/lib/supadata";
+import { getTranscriptSegments } from "@/lib/youtube-transcript-api-py";
+import { scrapeByOxyLabs } from "@/lib/oxylabs";
+import { joinSegments } from "@/lib/transcript-segments";
+import { logger } from "@/lib/logger";
+
+export interface ProviderTranscript {
+  transcript: string;
+  language: string;
+  segments: CaptionSegment[];
+}
+
+export interface ProviderOptions {
+  timeoutMs: number;
+  // Preferred caption languages, best first; the provider picks when empty
+  languages: string[];
+}
+
+/**
+ * One way of getting a video's captions. Resolving to null means the
+ * provider worked but the video has no captions; throwing means the
+ * provider itself failed and the next one should be tried.
+ */
+export interface TranscriptProvider {
+  name: TranscriptProviderName;
+  fetchTranscript(
+    videoId: string,
+    options: ProviderOptions
+  ): Promise<ProviderTranscript | null>;
+}
+
+const supadataProvider: TranscriptProvider = {
+  name: "supadata",
+  async fetchTranscript(videoId, { languages }) {
+    let response = await getTranscript(videoId, {
+      text: false,
+      lang: languages[0],
+    });
+
+    // Without the first language Supadata answers in another one and lists
+    // the ones it has, so a later preferred language is asked for instead
+    const betterLanguage =
+      !response.error &&
+      !languages.includes(response.lang) &&
+      languages.find((language) => response.availableLangs?.includes(language));
+    if (betterLanguage) {
+      response = await getTranscript(videoId, {
+        text: false,
+        lang: betterLanguage,
+      });
+    }
+
+    // Supadata answers with an error body when a video has no transcript
+    if (response.error) {
+      logger.debug("🔍 Supadata has no transcript", {
+        prefix: "Captions",
+        data: { videoId, message: response.message },
+      });
+      return null;
+    }
+
+    // Supadata times segments in milliseconds
+    const segments = (response.content as TranscriptSegment[]).map(
+      (segment) => ({
+        text: segment.text,
+        start: segment.offset / 1000,
+        duration: segment.duration / 1000,
+      })
+    );
+
+    return {
+      transcript: joinSegments(segments),
+      language: response.lang,
+      segments,
+    };
+  },
+};
+
+const youtubeTranscriptApiProvider: TranscriptProvider = {
+  name: "youtube-transcript-api",
+  async fetchTranscript(videoId, { timeoutMs, languages }) {
+    // The CLI doesn't say which of several languages it found, so they are
+    // asked for one at a time, English last like the CLI's default
+    for (const language of Array.from(new Set([...languages, "en"]))) {
+      const segments = await getTranscriptSegments(
+        videoId,
+        timeoutMs,
+        language
+      );
+      if (!segments) continue;
+
+      return {
+        transcript: joinSegments(segments),
+        language,
+        segments: segments.map(({ text, start, duration }) => ({
+          text,
+          start,
+          duration,
+        })),
+      };
+    }
+
+    return null;
+  },
+};
+
+const decodeXMLEntities = (text: string): string =>
+  text
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+
+// Lines look like <text start="1.23" dur="4.5">Hello</text>
+const parseXMLCaptions = (xmlContent: string): CaptionSegment[] => {
+  const captionLines = xmlContent.matchAll(/<text([^>]*)>([\s\S]*?)<\/text>/g);
+  return Array.from(captionLines, ([, attributes, content]) => ({
+    text: decodeXMLEntities(content.replace(/<[^>]*>/g, "")).trim(),
+    start: parseFloat(attributes.match(/start="([\d.]+)"/)?.[1] ?? "0"),
+    duration: parseFloat(attributes.match(/dur="([\d.]+)"/)?.[1] ?? "0"),
+  })).filter((segment) => segment.text);
+};
+
+const findBestCaptionTrack = (
+  tracks: YouTubeCaptionTrack[],
+  languages: string[]
+) => {
+  const defaultLanguage =
+    languages.find((language) =>
+      tracks.some((track) => track.languageCode === language)
+    ) ?? "en";
+  return (
+    // 1. Manual in default language
+    tracks.find(
+      (track) =>
+        track.languageCode === defaultLanguage && !track.kind?.includes("asr")
+    ) ||
+    // 2. Auto in default language
+    tracks.find((track) => track.languageCode === defaultLanguage) ||
+    // 3. Manual English (if not already English)
+    (defaultLanguage !== "en" &&
+      tracks.find(
+        (track) => track.languageCode === "en" && !track.kind?.includes("asr")
+      )) ||
+    // 4. Auto English (if not already English)
+    (defaultLanguage !== "en" &&
+      tracks.find((track) => track.languageCode === "en")) ||
+    // 5. Any manual captions
+    tracks.find((track) => !track.kind?.includes("asr")) ||
+    // 6. First available track
+    tracks[0]
+  );
+};
+
+// YouTube often blocks datacenter IPs, so go through the proxy when set up
+const fetchPage = async (url: string): Promise<string> => {
+  if (process.env.OXYLABS_PASSWORD) {
+    return (await scrapeByOxyLabs(url)) ?? "";
+  }
+
+  const response = await fetch(url, {
+    headers: { "Accept-Language": "en-US,en;q=0.9" },
+  });
+  if (!response.ok) {
+    throw new Error(`YouTube request failed with status ${response.status}`);
+  }
+  return response.text();
+};
+
+const timedtextProvider: TranscriptProvider = {
+  name: "timedtext",
+  async fetchTranscript(videoId, { languages }) {
+    const htmlContent = await fetchPage(
+      `https://www.youtube.com/watch?v=${videoId}`
+    );
+
+    // A consent or bot check page instead of the watch page
+    if (htmlContent.length < 1000) {
+      throw new Error("Watch page suspiciously small");
+    }
+
+    const match = htmlContent.match(/"captionTracks":\[(.*?)\](?=,\s*")/);
+    if (!match?.[1]) {
+      return null;
+    }
+
+    const captionTracks: YouTubeCaptionTrack[] = JSON.parse(`[${match[1]}]`);
+    const selectedTrack = findBestCaptionTrack(captionTracks, languages);
+    if (!selectedTrack?.baseUrl) {
+      return null;
+    }
+
+    const captionsUrl = selectedTrack.baseUrl
+      .replace(/\\u0026/g, "&")
+      .replace(/\\/g, "");
+    const segments = parseXMLCaptions(await fetchPage(captionsUrl));
+
+    return {
+      transcript: joinSegments(segments),
+      language: selectedTrack.languageCode || "en",
+      segments,
+    };
+  },
+};
+
+/**
+ * Makes up the same captions for a video every time, without any network
+ * access, so the pipeline can run offline
+ */
+const fakeProvider: TranscriptProvider = {
+  name: "fake",
+  async fetchTranscript(videoId, { languages }) {
+    const language = languages[0] ?? "en";
+    const segments = [1, 2, 3].map((n) => ({
+      text: `Line ${n} of video ${videoId}.`,
+      start: (n - 1) * 5,
+      duration: 5,
+    }));
+
+    return { transcript: joinSegments(segments), language, segments };
+  },
+};
+
+const TRANSCRIPT_PROVIDERS: Record<TranscriptProviderName, TranscriptProvider> =
+  {
+    supadata: supadataProvider,
+    "youtube-transcript-api": youtubeTranscriptApiProvider,
+    timedtext: timedtextProvider,
+    fake: fakeProvider,
+  };
+
+const DEFAULT_PROVIDER_ORDER = "supadata,youtube-transcript-api,timedtext";
+
+/**
+ * Providers in the order set by `TRANSCRIPT_PROVIDERS`, a comma-separated
+ * list of provider names. Unknown names are ignored.
+ */
+export function getTranscriptProviders(): TranscriptProvider[] {
+  const names = (process.env.TRANSCRIPT_PROVIDERS || DEFAULT_PROVIDER_ORDER)
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return names.flatMap((name) => {
+    const provider =
+      TRANSCRIPT_PROVIDERS[name as TranscriptProviderName] ?? null;
+    if (!provider) {
+      logger.warn("⚠️ Unknown transcript provider", {
+        prefix: "Captions",
+        data: { name },
+      });
+      return [];
+    }
+    return [provider];
+  });
+}
@@ -0,0 +1,85 @@
+import { CaptionSegment } from "@/lib/types";
+
+/**
+ * Flattens segments into the plain text transcript used for summaries
+ */
+export function joinSegments(segments: Pick<CaptionSegment, "text">[]): string {
+  return segments
+    .map((segment) => segment.text)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Merges consecutive segments into blocks of about the given length,
+ * since single segments are only a few words each
+ * @param seconds - Length of a block
+ */
+export function groupSegments(
+  segments: CaptionSegment[],
+  seconds: number
+): { start: number; text: string }[] {
+  const groups: { start: number; text: string }[] = [];
+  let current: CaptionSegment[] = [];
+
+  for (const segment of segments) {
+    if (current.length && segment.start - current[0].start >= seconds) {
+      groups.push({ start: current[0].start, text: joinSegments(current) });
+      current = [];
+    }
+    current.push(segment);
+  }
+  if (current.length) {
+    groups.push({ start: current[0].start, text: joinSegments(current) });
+  }
+
+  return groups;
+}
+
+/**
+ * Length of the video as far as its captions go, in seconds
+ */
+export function getSegmentsDuration(
+  segments: CaptionSegment[] | null | undefined
+): number {
+  if (!segments?.length) return 0;
+  return Math.round(
+    Math.max(...segments.map((segment) => segment.start + segment.duration))
+  );
+}
+
+/**
+ * Formats seconds as m:ss, or h:mm:ss for long videos
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * Reads a m:ss or h:mm:ss timestamp as written by `formatTimestamp`
+ * @returns Seconds, or null when it isn't a timestamp
+ */
+export function parseTimestamp(timestamp: string): number | null {
+  if (!/^\d+(:\d{1,2}){1,2}$/.test(timestamp.trim())) return null;
+  return timestamp
+    .trim()
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Link that starts the video at the given point
+ * @param videoId - YouTube video ID
+ * @param seconds - Offset into the video
+ */
+export function getTimestampUrl(videoId: string, seconds: number): string {
+  return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+}
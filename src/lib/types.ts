@@ -31,9 +31,21 @@ export interface PubSubHubbubSubscriptionRequest {
   leaseSeconds?: number;
 }
 
+export type HubSubscriptionState =
+  | "requested"
+  | "verified"
+  | "denied"
+  | "expired"
+  | "unsubscribed";
+
+export type WebhookRejectionReason =
+  | "missing_signature"
+  | "invalid_signature"
+  | "unknown_channel";
+
 export interface PubSubHubbubNotification {
   feed: {
-    entry: Array<{
+    entry?: Array<{
       id: Array<string>;
       title: Array<string>;
       link: Array<string>;
@@ -46,6 +58,17 @@ export interface PubSubHubbubNotification {
       "yt:videoId": Array<string>;
       "yt:channelId": Array<string>;
     }>;
+    "at:deleted-entry"?: Array<{
+      $: {
+        ref: string;
+        when: string;
+      };
+      link: Array<{ $: { href: string } }>;
+      "at:by": Array<{
+        name: Array<string>;
+        uri: Array<string>;
+      }>;
+    }>;
   };
 }
 
@@ -56,15 +79,85 @@ export interface YouTubeQueueMessage {
   authorName: string;
   published: string;
   updated: string;
+  targetProfileId?: string; // Set for backfills, notifies only this profile
+  videoType?: VideoType; // Detected at ingest
+  deferrals?: number; // Times the video was not watchable or had no captions yet
+  withoutSummary?: boolean; // Gave up waiting for captions
+  summaryLanguages?: string[]; // Summarized in these, one email per language
   timestamp?: string;
 }
 
+export type VideoAvailabilityStatus =
+  | "ready"
+  | "upcoming"
+  | "live"
+  | "processing"
+  | "unavailable";
+
+export interface VideoAvailability {
+  status: VideoAvailabilityStatus;
+  scheduledStartAt: string | null; // Premieres and scheduled streams only
+}
+
+export type VideoType = "regular" | "short" | "live_replay" | "premiere";
+
+// Which video types a profile wants summaries of, per channel
+export type VideoTypePreferences = Record<VideoType, boolean>;
+
+export interface VideoDetails extends VideoAvailability {
+  type: VideoType | null; // Unknown when the video can't be looked up
+  durationSeconds: number | null; // Zero while live or upcoming
+}
+
 export interface Video {
   id: string;
   title: string;
   url: string;
 }
 
+// A followed channel whose feed is due for polling
+export interface FeedPollChannel {
+  id: string;
+  last_video_id: string | null;
+  last_video_date: string | null;
+}
+
+// What a feed poll changes on the channel
+export interface FeedPollUpdate {
+  last_video_id?: string;
+  last_video_date?: string;
+  feed_poll_interval_minutes?: number;
+  last_feed_poll_at?: string;
+  next_feed_poll_at: string;
+}
+
+export interface VideoRegistration {
+  isNew: boolean;
+  previousTitle: string | null;
+  deletedAt: string | null;
+}
+
+// Outcome of claiming a pipeline stage for one video
+export type IdempotencyLeaseResult = "acquired" | "completed" | "busy";
+
+export interface BackfillVideo {
+  videoId: string;
+  channelId: string;
+  title: string;
+  authorName: string;
+  published: string;
+  updated: string;
+  alreadySent: boolean;
+  hasSummary: boolean;
+  willSend: boolean;
+}
+
+export interface BackfillPreview {
+  videos: BackfillVideo[];
+  remainingQuota: number;
+  billableCount: number;
+}
+
 export interface VideoCaption {
   video_id: string;
   transcript: string;
@@ -79,6 +172,31 @@ export interface CaptionData {
   language: string;
   title?: string;
   duration: number;
+  provider?: TranscriptProviderName | "whisper" | null; // Which provider found the captions
+  segments?: CaptionSegment[] | null; // Timed lines, when the provider has them
+  machineTranscribed?: boolean; // Transcribed from the audio, not captions
+}
+
+export interface CaptionSegment {
+  text: string;
+  start: number; // Seconds from the start of the video
+  duration: number; // Seconds
+}
+
+export type TranscriptProviderName =
+  | "supadata"
+  | "youtube-transcript-api"
+  | "timedtext"
+  | "fake";
+
+export interface TranscriptProviderStats {
+  provider: TranscriptProviderName;
+  attempts: number;
+  successes: number;
+  notFound: number; // The provider answered but had no captions
+  failures: number; // Errors and timeouts
+  averageLatencyMs: number | null;
+  circuitOpenUntil: string | null;
 }
 
 export interface PGMQMessage<T> {
@@ -89,6 +207,57 @@ export interface PGMQMessage<T> {
   message: T;
 }
 
+export interface QueueJob<T> {
+  id: number;
+  attempts: number; // Reads so far, including the one that returned it
+  enqueuedAt: string;
+  message: T;
+}
+
+export interface QueueStageStats {
+  stage: string;
+  queueName: string;
+  processed: number;
+  failed: number;
+  duplicates: number; // Messages skipped because their work already ran
+  deferred: number;
+  inFlight: number;
+  messagesPerMinute: number;
+  lagSeconds: number | null; // Wait time of the oldest message in the last batch
+  batchSize: number;
+  concurrency: number;
+}
+
+export interface QueueWorkerStats {
+  stages: QueueStageStats[];
+  transcriptProviders: TranscriptProviderStats[];
+}
+
+export interface WorkerHeartbeatRecord {
+  worker_name: string;
+  instance_id: string;
+  started_at: string;
+  last_loop_at: string;
+  expected_interval_seconds: number;
+  processed_count: number;
+  error_count: number;
+  backlog: Record<string, number>;
+}
+
+export interface WorkerStatus extends WorkerHeartbeatRecord {
+  paused: boolean;
+  stale: boolean;
+}
+
+export interface DeadLetterMessage<T> {
+  message: T;
+  sourceQueue: string;
+  originalMsgId: number;
+  readCount: number;
+  lastError: string;
+  failedAt: string;
+}
+
 export interface Video {
   title: string;
   url: string;
@@ -115,7 +284,8 @@ export interface EmailNotification {
   video_id: string;
   title: string;
   email_content: string;
-  status: "pending" | "sent" | "failed";
+  personalized?: boolean; // Counts against the personalized summary limit
+  status: "pending" | "sent" | "failed" | "cancelled";
   created_at: string;
   sent_at: string | null;
   profiles: {
@@ -123,6 +293,12 @@ export interface EmailNotification {
   };
 }
 
+// A notification_emails row the fan-out creates
+export type NewEmailNotification = Omit<
+  EmailNotification,
+  "id" | "sent_at" | "profiles"
+>;
+
 export interface YouTubeCaptionTrack {
   baseUrl: string;
   name: {
@@ -156,6 +332,11 @@ export interface ChannelListItem {
   latestVideoId: string;
   avatar: string;
   createdAt: string;
+  leaseExpiresAt: string | null;
+  hubState: HubSubscriptionState | null;
+  videoTypes: VideoTypePreferences;
+  captionLanguage: string | null; // Preferred caption track, null for any
+  summaryFocus: string | null; // What the subscriber's summaries focus on
 }
 
 export interface ChannelProcessingStatus {
@@ -169,6 +350,12 @@ export interface ChannelProcessingStatus {
 export interface ChannelQueryResult {
   id: string;
   created_at: string;
+  include_regular: boolean;
+  include_shorts: boolean;
+  include_live_replays: boolean;
+  include_premieres: boolean;
+  caption_language: string | null;
+  summary_focus: string | null;
   youtube_channel: {
     id: string;
     title: string;
@@ -177,18 +364,109 @@ export interface ChannelQueryResult {
     last_video_id: string;
     last_video_date: string;
     custom_url: string;
+    hub_lease_expires_at: string | null;
+    hub_state: HubSubscriptionState | null;
   };
 }
 
+// A channel's subscriber as the pipeline sees them
+export interface ChannelSubscriber {
+  profileId: string;
+  summaryLanguage: string | null;
+}
+
+export interface ChannelSubscriberFilter {
+  profileId?: string; // Only this subscriber, for backfills
+  videoType?: VideoType; // Only those who include this type of video
+  notifyWithoutSummary?: boolean; // Only those who want summary-less emails
+}
+
+export interface SubscriberLanguagePreference {
+  captionLanguage: string | null;
+  summaryLanguage: string | null;
+}
+
+// "standard" is the summary shared by every subscriber
+export type SummaryStyle =
+  | "standard"
+  | "tldr"
+  | "detailed"
+  | "bullets"
+  | "actionable";
+
+/**
+ * A subscriber whose summaries differ from the shared one
+ */
+export interface SummaryPersonalization {
+  profileId: string;
+  summaryLanguage: string | null;
+  style: SummaryStyle;
+  focus: string | null;
+}
+
 export interface VideoAIContent {
   content: {
     briefSummary?: string;
     keyPoints?: string[];
+    // Only generated when a subscriber's plan enables them
+    chapters?: VideoChapter[];
+    quotes?: VideoQuote[];
+    entities?: VideoEntity[];
+    tags?: string[];
+    tone?: VideoTone;
     // ... can add more AI-generated content types in the future
   };
   model: string;
+  provider?: SummaryProviderName | null; // Which provider ran the model
+}
+
+// AI content beyond the summary, enabled per plan in `plans.features`
+export type AIContentFeature =
+  | "chapters"
+  | "quotes"
+  | "entities"
+  | "tags"
+  | "tone";
+
+export type VideoInsights = Pick<VideoAIContent["content"], AIContentFeature>;
+
+/**
+ * AI content beyond the summary stored for a video, one feature at a time
+ */
+export interface StoredVideoInsights {
+  features: AIContentFeature[]; // Generated, whether or not anything was found
+  insights: VideoInsights;
+}
+
+export interface SubscriberAIContentFeatures {
+  profileId: string;
+  features: AIContentFeature[]; // Enabled by the subscriber's plan
+}
+
+export interface VideoChapter {
+  start: number; // Seconds into the video
+  title: string;
 }
 
+export interface VideoQuote {
+  text: string;
+  speaker: string | null;
+  start: number | null; // Seconds into the video, when segments are known
+}
+
+export interface VideoEntity {
+  name: string;
+  type: "person" | "product" | "link";
+  url: string | null;
+}
+
+export interface VideoTone {
+  sentiment: "positive" | "neutral" | "negative" | "mixed";
+  labels: string[]; // e.g. "informative", "humorous"
+}
+
+export type SummaryProviderName = "openai" | "anthropic" | "local" | "fake";
+
 export interface EligibleProfile {
   profile_id: string;
   email: string;
@@ -229,7 +507,15 @@ export interface Subscription {
   };
 }
 
-interface PlanFeatures {
+interface PlanFeatureToggle {
+  enabled: boolean;
+  description: string;
+  tooltip: string;
+  disabled_message?: string;
+}
+
+export interface PlanFeatures
+  extends Partial<Record<AIContentFeature, PlanFeatureToggle>> {
   plan: {
     name: string;
     description: string;
@@ -284,6 +570,7 @@ export interface Plan {
   monthly_email_limit: number;
   monthly_cost: number;
   channel_limit: number;
+  personalized_summary_limit?: number; // Per month, 0 for none
   features: PlanFeatures;
   stripe_price_id: string;
 }
@@ -302,6 +589,11 @@ export interface Profile {
   last_name: string | null;
   email: string | null;
   avatar_url: string | null;
+  notify_on_retitle?: boolean;
+  notify_without_summary?: boolean;
+  summary_language?: string | null; // Null follows the video's language
+  summary_style?: SummaryStyle | null; // Null is the standard summary
+  is_admin?: boolean; // Listed in `admins`
   subscription: Subscription | null;
 }
 
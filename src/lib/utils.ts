@@ -150,14 +150,24 @@ export function buildUrl(path: string): string {
   return `${baseUrl}${normalizedPath}`;
 }
 
+// Lets internal API routes tell the app's own server calls from others
+export const INTERNAL_SECRET_HEADER = "X-Internal-Secret";
+
+/**
+ * Fetches an API route of the app. On the server the request carries
+ * `INTERNAL_API_SECRET`, which internal-only routes require.
+ */
 export function internalFetch(input: string, init?: RequestInit) {
   const baseUrl = getAppUrl();
   const url = input.startsWith("/") ? `${baseUrl}${input}` : input;
-  
+  const internalSecret =
+    typeof window === "undefined" ? process.env.INTERNAL_API_SECRET : undefined;
+
   return fetch(url, {
     ...init,
     headers: {
       ...init?.headers,
+      ...(internalSecret && { [INTERNAL_SECRET_HEADER]: internalSecret }),
       "Content-Type": "application/json",
     },
   });
@@ -0,0 +1,69 @@
+import { hostname } from "node:os";
+import { supabaseWorkerStore, WorkerStore } from "@/lib/worker-store";
+import { logger } from "@/lib/logger";
+
+const HEARTBEAT_INTERVAL = 15000; // Minimum time between heartbeat writes
+
+/**
+ * Reports a worker's loop activity to `worker_heartbeats` and tells the
+ * worker whether an admin paused it from the status dashboard.
+ */
+export class WorkerHeartbeat {
+  private instanceId = `${hostname()}-${process.pid}`;
+  private startedAt = new Date().toISOString();
+  private processed = 0;
+  private errors = 0;
+  private lastBeatAt = 0;
+  private paused = false;
+
+  constructor(
+    private workerName: string,
+    private expectedIntervalSeconds: number,
+    private getBacklog?: () => Promise<Record<string, number>>,
+    private store: WorkerStore = supabaseWorkerStore
+  ) {}
+
+  recordProcessed(count: number = 1) {
+    this.processed += count;
+  }
+
+  recordError(count: number = 1) {
+    this.errors += count;
+  }
+
+  /**
+   * Called once per worker loop. Writes are throttled, so the returned
+   * pause state can lag the dashboard by up to one heartbeat interval.
+   * @returns Whether the worker should skip this loop
+   */
+  async beat(): Promise<boolean> {
+    if (Date.now() - this.lastBeatAt < HEARTBEAT_INTERVAL) {
+      return this.paused;
+    }
+    this.lastBeatAt = Date.now();
+
+    try {
+      this.paused = await this.store.recordWorkerHeartbeat({
+        worker_name: this.workerName,
+        instance_id: this.instanceId,
+        started_at: this.startedAt,
+        last_loop_at: new Date().toISOString(),
+        expected_interval_seconds: this.expectedIntervalSeconds,
+        processed_count: this.processed,
+        error_count: this.errors,
+        backlog: (await this.getBacklog?.()) ?? {},
+      });
+    } catch (error) {
+      // A missed heartbeat shows up as stale, it must not stop the worker
+      logger.warn("💓 Failed to record heartbeat", {
+        prefix: "Heartbeat",
+        data: {
+          workerName: this.workerName,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      });
+    }
+
+    return this.paused;
+  }
+}
@@ -0,0 +1,266 @@
+import http from "node:http";
+import { Client } from "pg";
+import { logger } from "@/lib/logger";
+
+const LEADER_RETRY_INTERVAL = 15000; // How often standbys try to take over
+const SHUTDOWN_TIMEOUT = 30000;
+const LOCK_NAMESPACE = "tuberbrief-worker";
+
+export interface RunnableWorker {
+  isRunning: boolean;
+  start(): Promise<void>;
+  stop(): void | Promise<void>;
+  getStats?(): unknown;
+}
+
+export interface WorkerDefinition {
+  name: string;
+  create: () => RunnableWorker;
+  // Singletons only run on the instance holding their advisory lock
+  singleton: boolean;
+}
+
+interface ManagedWorker {
+  definition: WorkerDefinition;
+  instance: RunnableWorker | null;
+  loop: Promise<void> | null;
+  isLeader: boolean;
+}
+
+/**
+ * Runs workers outside Next.js. Singleton workers are guarded by a
+ * Postgres session advisory lock, so only one instance runs each of them;
+ * the others stay on standby and take over when the leader goes away.
+ */
+export class WorkerRunner {
+  private workers: ManagedWorker[];
+  private db: Client | null = null;
+  private healthServer: http.Server | null = null;
+  private electionTimer: NodeJS.Timeout | null = null;
+  private isShuttingDown = false;
+  private isElecting = false;
+  private steppingDown: Promise<void> | null = null;
+
+  constructor(
+    definitions: WorkerDefinition[],
+    private options: { databaseUrl: string; healthPort: number }
+  ) {
+    this.workers = definitions.map((definition) => ({
+      definition,
+      instance: null,
+      loop: null,
+      isLeader: false,
+    }));
+  }
+
+  async start() {
+    logger.info("🎬 Starting worker runner", {
+      prefix: "Runner",
+      data: { workers: this.workers.map((w) => w.definition.name) },
+    });
+
+    this.startHealthServer();
+
+    for (const worker of this.workers) {
+      if (!worker.definition.singleton) this.startWorker(worker);
+    }
+
+    await this.runElection();
+    this.electionTimer = setInterval(
+      () => this.runElection(),
+      LEADER_RETRY_INTERVAL
+    );
+  }
+
+  /**
+   * Stops every worker, waits for in-flight work, then releases the locks
+   * by closing the database session
+   */
+  async shutdown(signal: string) {
+    if (this.isShuttingDown) return;
+    this.isShuttingDown = true;
+
+    logger.info(`🛑 Received ${signal}, shutting down workers`, {
+      prefix: "Runner",
+    });
+
+    if (this.electionTimer) clearInterval(this.electionTimer);
+
+    const drained = Promise.all(
+      this.workers.map((worker) => this.stopWorker(worker))
+    );
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = await Promise.race([
+      drained.then(() => false),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), SHUTDOWN_TIMEOUT);
+      }),
+    ]);
+    clearTimeout(timer);
+    if (timedOut) {
+      logger.warn("⏱️ Shutdown timed out waiting for workers to exit", {
+        prefix: "Runner",
+      });
+    }
+
+    await this.db?.end().catch(() => undefined);
+    this.healthServer?.close();
+    logger.info("✅ Worker runner stopped", { prefix: "Runner" });
+  }
+
+  private startWorker(worker: ManagedWorker) {
+    if (worker.instance) return;
+
+    worker.instance = worker.definition.create();
+    worker.loop = worker.instance.start().catch((error) => {
+      logger.error(`💥 Worker ${worker.definition.name} crashed`, {
+        prefix: "Runner",
+        data: {
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      });
+    });
+  }
+
+  private async stopWorker(worker: ManagedWorker) {
+    if (!worker.instance) return;
+
+    const { instance, loop } = worker;
+    worker.instance = null;
+    worker.loop = null;
+
+    await instance.stop();
+    // The loop finishes its current iteration before it exits
+    await loop;
+  }
+
+  /**
+   * Tries to take the advisory lock of every singleton not yet led here.
+   * Losing the database session loses the locks, so leaders step down.
+   */
+  private async runElection() {
+    // Leading again before the old loops exit would run them twice
+    if (this.isShuttingDown || this.isElecting || this.steppingDown) return;
+    this.isElecting = true;
+
+    try {
+      const db = await this.getDatabase();
+
+      for (const worker of this.workers) {
+        if (!worker.definition.singleton || worker.isLeader) continue;
+
+        const { rows } = await db.query<{ acquired: boolean }>(
+          "select pg_try_advisory_lock(hashtext($1), hashtext($2)) as acquired",
+          [LOCK_NAMESPACE, worker.definition.name]
+        );
+
+        if (rows[0]?.acquired) {
+          worker.isLeader = true;
+          logger.info(`👑 Leading ${worker.definition.name} worker`, {
+            prefix: "Runner",
+          });
+          this.startWorker(worker);
+        }
+      }
+    } catch (error) {
+      logger.error("💥 Leader election failed", {
+        prefix: "Runner",
+        data: {
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      });
+      await this.stepDown();
+    } finally {
+      this.isElecting = false;
+    }
+  }
+
+  private async getDatabase(): Promise<Client> {
+    if (this.db) return this.db;
+
+    const db = new Client({ connectionString: this.options.databaseUrl });
+    db.on("error", (error) => {
+      logger.error("💥 Leader election connection lost", {
+        prefix: "Runner",
+        data: { error: error.message },
+      });
+      // The locks went with the session, stop the loops as soon as possible
+      void this.stepDown();
+    });
+
+    await db.connect();
+    this.db = db;
+    return db;
+  }
+
+  /**
+   * Stops the singletons led here, then closes the session that holds
+   * their locks, so no other instance leads them while they still run
+   */
+  private stepDown(): Promise<void> {
+    this.steppingDown ??= (async () => {
+      const db = this.db;
+      this.db = null;
+
+      await Promise.all(
+        this.workers
+          .filter((worker) => worker.isLeader)
+          .map((worker) => {
+            worker.isLeader = false;
+            logger.warn(
+              `🔻 Stepping down as ${worker.definition.name} leader`,
+              { prefix: "Runner" }
+            );
+            return this.stopWorker(worker);
+          })
+      );
+      await db?.end().catch(() => undefined);
+    })().finally(() => {
+      this.steppingDown = null;
+    });
+    return this.steppingDown;
+  }
+
+  private getHealth() {
+    return {
+      status:
+        this.isShuttingDown || !this.db ? ("unhealthy" as const) : "healthy",
+      workers: Object.fromEntries(
+        this.workers.map((worker) => [
+          worker.definition.name,
+          {
+            role: !worker.definition.singleton
+              ? "always"
+              : worker.isLeader
+              ? "leader"
+              : "standby",
+            running: worker.instance?.isRunning ?? false,
+            stats: worker.instance?.getStats?.(),
+          },
+        ])
+      ),
+    };
+  }
+
+  private startHealthServer() {
+    this.healthServer = http.createServer((request, response) => {
+      if (request.url !== "/health") {
+        response.writeHead(404).end();
+        return;
+      }
+
+      const health = this.getHealth();
+      response
+        .writeHead(health.status === "healthy" ? 200 : 503, {
+          "Content-Type": "application/json",
+        })
+        .end(JSON.stringify(health));
+    });
+
+    this.healthServer.listen(this.options.healthPort, () => {
+      logger.info(`🩺 Health check listening on :${this.options.healthPort}`, {
+        prefix: "Runner",
+      });
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  acquireIdempotencyLease,
+  completeIdempotencyKey,
+  recordWorkerHeartbeat,
+  releaseIdempotencyLease,
+} from "@/lib/supabase";
+import { IdempotencyLeaseResult, WorkerHeartbeatRecord } from "@/lib/types";
+
+/**
+ * Bookkeeping a worker keeps next to its queue: idempotency leases and
+ * heartbeats. Supabase holds it by default.
+ */
+export interface WorkerStore {
+  acquireIdempotencyLease(
+    key: string,
+    owner: string,
+    leaseSeconds: number
+  ): Promise<IdempotencyLeaseResult>;
+  completeIdempotencyKey(key: string, owner: string): Promise<void>;
+  releaseIdempotencyLease(key: string, owner: string): Promise<void>;
+  /**
+   * @returns Whether an admin paused the worker
+   */
+  recordWorkerHeartbeat(heartbeat: WorkerHeartbeatRecord): Promise<boolean>;
+}
+
+export const supabaseWorkerStore: WorkerStore = {
+  acquireIdempotencyLease,
+  completeIdempotencyKey,
+  releaseIdempotencyLease,
+  recordWorkerHeartbeat,
+};
+
+interface StoredLease {
+  status: "in_progress" | "completed";
+  owner: string | null;
+  expiresAt: number | null;
+}
+
+/**
+ * Keeps leases and heartbeats in process memory with the same semantics as
+ * `acquire_idempotency_lease`, for tests next to a `MemoryJobQueue`.
+ */
+export class MemoryWorkerStore implements WorkerStore {
+  readonly heartbeats = new Map<string, WorkerHeartbeatRecord>();
+  readonly pausedWorkers = new Set<string>();
+  private leases = new Map<string, StoredLease>();
+
+  async acquireIdempotencyLease(
+    key: string,
+    owner: string,
+    leaseSeconds: number
+  ): Promise<IdempotencyLeaseResult> {
+    const lease = this.leases.get(key);
+    if (lease?.status === "completed") {
+      return "completed";
+    }
+    // Taken while another holder's lease is still running
+    if (lease?.expiresAt && lease.expiresAt >= Date.now()) {
+      return "busy";
+    }
+
+    this.leases.set(key, {
+      status: "in_progress",
+      owner,
+      expiresAt: Date.now() + leaseSeconds * 1000,
+    });
+    return "acquired";
+  }
+
+  async completeIdempotencyKey(key: string, owner: string): Promise<void> {
+    if (this.leases.get(key)?.owner === owner) {
+      this.leases.set(key, {
+        status: "completed",
+        owner: null,
+        expiresAt: null,
+      });
+    }
+  }
+
+  async releaseIdempotencyLease(key: string, owner: string): Promise<void> {
+    const lease = this.leases.get(key);
+    if (lease?.status === "in_progress" && lease.owner === owner) {
+      this.leases.set(key, { ...lease, owner: null, expiresAt: null });
+    }
+  }
+
+  async recordWorkerHeartbeat(
+    heartbeat: WorkerHeartbeatRecord
+  ): Promise<boolean> {
+    this.heartbeats.set(
+      `${heartbeat.worker_name}:${heartbeat.instance_id}`,
+      heartbeat
+    );
+    return this.pausedWorkers.has(heartbeat.worker_name);
+  }
+}
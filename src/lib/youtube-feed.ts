@@ -0,0 +1,105 @@
+import xml2js from "xml2js";
+import { ChannelFromXmlFeed } from "@/lib/types";
+
+// Overridable so the poller can be pointed at a local fixture feed server
+const getFeedBaseUrl = () =>
+  process.env.YOUTUBE_FEED_BASE_URL || "https://www.youtube.com";
+
+export interface FeedVideo {
+  videoId: string;
+  channelId: string;
+  title: string;
+  authorName: string;
+  published: string;
+  updated: string;
+}
+
+export interface ChannelFeed {
+  channel: ChannelFromXmlFeed;
+  videos: FeedVideo[]; // Newest first, as YouTube orders the feed
+}
+
+interface XmlFeedEntry {
+  "yt:videoId": string[];
+  "yt:channelId": string[];
+  title: string[];
+  published: string[];
+  updated: string[];
+  author: Array<{ name: string[]; uri: string[] }>;
+  "media:group"?: Array<{
+    "media:thumbnail"?: Array<{ $: { url: string } }>;
+    "media:community"?: Array<{
+      "media:statistics"?: Array<{ $: { views: string } }>;
+    }>;
+  }>;
+}
+
+/**
+ * Parses a channel's or user's videos.xml Atom feed
+ * @param xml - The raw feed body
+ */
+export async function parseChannelFeed(xml: string): Promise<ChannelFeed> {
+  const parser = new xml2js.Parser();
+  const result = await parser.parseStringPromise(xml);
+
+  if (!result?.feed) {
+    throw new Error("Invalid feed format: No feed element found");
+  }
+
+  const entries: XmlFeedEntry[] = result.feed.entry || [];
+  const author = result.feed.author?.[0]?.name?.[0] || "";
+  const uri = result.feed.author?.[0]?.uri?.[0] || "";
+  const channelId =
+    result.feed["yt:channelId"]?.[0] || uri.split("/").pop() || "";
+
+  const videos = entries.map((entry) => ({
+    videoId: entry["yt:videoId"][0],
+    channelId: entry["yt:channelId"]?.[0] || channelId,
+    title: entry.title[0],
+    authorName: entry.author?.[0]?.name?.[0] || author,
+    published: entry.published[0],
+    updated: entry.updated[0],
+  }));
+
+  const latestEntry = entries[0];
+  return {
+    channel: {
+      author,
+      uri,
+      title: result.feed.title?.[0] || author,
+      thumbnail:
+        latestEntry?.["media:group"]?.[0]?.["media:thumbnail"]?.[0]?.$?.url ||
+        "",
+      viewCount: parseInt(
+        latestEntry?.["media:group"]?.[0]?.["media:community"]?.[0]?.[
+          "media:statistics"
+        ]?.[0]?.$?.views || "0",
+        10
+      ),
+      lastVideoId: videos[0]?.videoId || "",
+      lastVideoDate: videos[0]?.published || "",
+      channelId,
+    },
+    videos,
+  };
+}
+
+/**
+ * Fetches and parses the videos.xml feed of a channel
+ * @param channelId - YouTube channel ID
+ */
+export async function fetchChannelFeedById(
+  channelId: string
+): Promise<ChannelFeed> {
+  const response = await fetch(
+    `${getFeedBaseUrl()}/feeds/videos.xml?channel_id=${encodeURIComponent(
+      channelId
+    )}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch feed: ${response.status}`);
+  }
+
+  return parseChannelFeed(await response.text());
+}
@@ -1,25 +1,41 @@
-import { supabaseServicePublic } from "@/lib/supabase";
+import {
+  expireLapsedHubLeases,
+  getChannelsWithoutHubSecret,
+  supabaseServicePublic,
+} from "@/lib/supabase";
 import { managePubSubHubbub } from "@/lib/pubsub";
+import { WorkerHeartbeat } from "@/lib/worker-heartbeat";
+import { sleep } from "@/lib/concurrency";
 import { logger } from "@/lib/logger";
 
 const POLLING_INTERVAL =
   process.env.NODE_ENV === "production" ? 3600000 : 60000; // 1 hour in prod, 1 minute in dev
-const SUBSCRIPTION_RENEWAL_DAYS = 7; // Renew subscriptions older than 7 days
+const RENEWAL_LEAD_HOURS = 24; // Renew leases that expire within the next day
+const RENEWAL_BATCH_SIZE = 50;
+const STALE_REQUEST_MINUTES = 30; // Retry requests the hub never verified
 
 export class YouTubeSubscriptionWorker {
   public isRunning: boolean = false;
+  private stopController = new AbortController();
   private supabase = supabaseServicePublic;
+  private heartbeat = new WorkerHeartbeat(
+    "subscription",
+    POLLING_INTERVAL / 1000
+  );
 
   async start() {
     this.isRunning = true;
+    this.stopController = new AbortController();
     logger.info("🔄 Starting subscription renewal worker", {
       prefix: "Subscription Worker",
     });
 
     while (this.isRunning) {
       try {
-        await this.processSubscriptionRenewals();
-        await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL));
+        if (!(await this.heartbeat.beat())) {
+          await this.processSubscriptionRenewals();
+        }
+        await sleep(POLLING_INTERVAL, this.stopController.signal);
       } catch (error) {
         logger.error("💥 Subscription worker error:", {
           prefix: "Subscription Worker",
@@ -33,6 +49,7 @@ export class YouTubeSubscriptionWorker {
 
   stop() {
     this.isRunning = false;
+    this.stopController.abort();
     logger.info("🛑 Stopping subscription renewal worker", {
       prefix: "Subscription Worker",
     });
@@ -52,46 +69,88 @@ export class YouTubeSubscriptionWorker {
         return;
       }
 
-      // Get channels that need renewal (subscribed more than 7 days ago or never subscribed)
-      const renewalDate = new Date();
-      renewalDate.setDate(renewalDate.getDate() - SUBSCRIPTION_RENEWAL_DAYS);
+      // Verified channels whose lease passed without re-verification
+      const expiredCount = await expireLapsedHubLeases();
+      if (expiredCount > 0) {
+        logger.warn(`⌛ ${expiredCount} hub leases expired`, {
+          prefix: "Subscription Worker",
+          data: { expiredCount },
+        });
+      }
+
+      const renewBefore = new Date(
+        Date.now() + RENEWAL_LEAD_HOURS * 60 * 60 * 1000
+      );
+      const staleBefore = new Date(
+        Date.now() - STALE_REQUEST_MINUTES * 60 * 1000
+      );
 
+      // One hub subscription per channel, only for channels someone follows
       const { data: channels, error } = await this.supabase
-        .from("profiles_youtube_channels")
-        .select("youtube_channel_id")
+        .from("youtube_channels")
+        .select(
+          "id, hub_state, hub_lease_expires_at, profiles_youtube_channels!inner(id)"
+        )
+        // Denied subscriptions are left for manual review
         .or(
-          `subscribed_at.is.null,subscribed_at.lt.${renewalDate.toISOString()}`
+          [
+            "hub_state.is.null",
+            "hub_state.eq.unsubscribed",
+            `and(hub_state.eq.requested,hub_requested_at.lt.${staleBefore.toISOString()})`,
+            `and(hub_state.in.(verified,expired),hub_lease_expires_at.lt.${renewBefore.toISOString()})`,
+            "and(hub_state.eq.verified,hub_lease_expires_at.is.null)",
+          ].join(",")
         )
-        .limit(10); // Process in batches
+        .order("hub_lease_expires_at", { ascending: true, nullsFirst: true })
+        .limit(RENEWAL_BATCH_SIZE);
 
       if (error) throw error;
-      if (!channels?.length) {
+
+      // Subscribing again gives channels without a secret one
+      const unsignedChannelIds = (
+        await getChannelsWithoutHubSecret(RENEWAL_BATCH_SIZE)
+      ).filter((id) => !channels?.some((channel) => channel.id === id));
+      const renewals: {
+        id: string;
+        hub_state: string | null;
+        hub_lease_expires_at: string | null;
+      }[] = [
+        ...(channels ?? []),
+        ...unsignedChannelIds.map((id) => ({
+          id,
+          hub_state: "missing_secret",
+          hub_lease_expires_at: null,
+        })),
+      ];
+
+      if (!renewals.length) {
         logger.info("✨ No channels need renewal", {
           prefix: "Subscription Worker",
         });
         return;
       }
 
-      logger.info(`🔄 Processing ${channels.length} channel renewals`, {
+      logger.info(`🔄 Processing ${renewals.length} channel renewals`, {
         prefix: "Subscription Worker",
-        data: { batchSize: channels.length },
+        data: { batchSize: renewals.length },
       });
 
       // Process each channel
-      for (const channel of channels) {
+      for (const channel of renewals) {
         try {
-          logger.info(
-            `📡 Renewing subscription for channel: ${channel.youtube_channel_id}`,
-            {
-              prefix: "Subscription Worker",
-              data: { channelId: channel.youtube_channel_id },
-            }
-          );
+          logger.info(`📡 Renewing subscription for channel: ${channel.id}`, {
+            prefix: "Subscription Worker",
+            data: {
+              channelId: channel.id,
+              state: channel.hub_state,
+              leaseExpiresAt: channel.hub_lease_expires_at,
+            },
+          });
 
-          // Attempt to subscribe
-          const callbackUrl = await managePubSubHubbub(
-            channel.youtube_channel_id
-          );
+          // Attempt to subscribe, the lease is recorded once the hub verifies
+          const callbackUrl = await managePubSubHubbub({
+            channelId: channel.id,
+          });
 
           // Update subscription timestamp
           const { error: updateError } = await this.supabase
@@ -100,15 +159,16 @@ export class YouTubeSubscriptionWorker {
               subscribed_at: new Date().toISOString(),
               callback_url: callbackUrl,
             })
-            .eq("youtube_channel_id", channel.youtube_channel_id);
+            .eq("youtube_channel_id", channel.id);
 
           if (updateError) {
+            this.heartbeat.recordError();
             logger.error(
-              `❌ Failed to update subscription timestamp for ${channel.youtube_channel_id}:`,
+              `❌ Failed to update subscription timestamp for ${channel.id}:`,
               {
                 prefix: "Subscription Worker",
                 data: {
-                  channelId: channel.youtube_channel_id,
+                  channelId: channel.id,
                   error: updateError.message,
                 },
               }
@@ -116,33 +176,33 @@ export class YouTubeSubscriptionWorker {
             continue;
           }
 
+          this.heartbeat.recordProcessed();
           logger.info(
-            `✅ Successfully renewed subscription for ${channel.youtube_channel_id}`,
+            `✅ Successfully renewed subscription for ${channel.id}`,
             {
               prefix: "Subscription Worker",
               data: {
-                channelId: channel.youtube_channel_id,
+                channelId: channel.id,
                 callbackUrl,
               },
             }
           );
         } catch (channelError) {
-          logger.error(
-            `❌ Failed to renew subscription for ${channel.youtube_channel_id}`,
-            {
-              prefix: "Subscription Worker",
-              data: {
-                channelId: channel.youtube_channel_id,
-                error:
-                  channelError instanceof Error
-                    ? channelError.message
-                    : "Unknown error",
-              },
-            }
-          );
+          this.heartbeat.recordError();
+          logger.error(`❌ Failed to renew subscription for ${channel.id}`, {
+            prefix: "Subscription Worker",
+            data: {
+              channelId: channel.id,
+              error:
+                channelError instanceof Error
+                  ? channelError.message
+                  : "Unknown error",
+            },
+          });
         }
       }
     } catch (error) {
+      this.heartbeat.recordError();
       logger.error("💥 Subscription renewal error:", {
         prefix: "Subscription Worker",
         data: {
@@ -1,7 +1,14 @@
 import { promisify } from "util";
-import { exec } from "child_process";
+import { exec, execFile } from "child_process";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+export interface PythonTranscriptSegment {
+  text: string;
+  start: number;
+  duration: number;
+}
 
 // This function uses a Python CLI called "youtube-transcript-api"
 // This CLI is installed on the server and called as a subprocess
@@ -106,3 +113,39 @@ const calculateVideoDuration = (transcript: TranscriptResult): number => {
   return transcript.transcript.reduce((acc, curr) => acc + curr.duration, 0);
 };
 */
+
+/**
+ * Runs the CLI with JSON output and parses the segments
+ * @param videoId - YouTube video ID
+ * @param timeoutMs - Kills the subprocess after this long
+ * @param language - Transcript language, English when not given
+ * @returns Segments, or null when the video has no transcript
+ */
+export const getTranscriptSegments = async (
+  videoId: string,
+  timeoutMs: number,
+  language = "en"
+): Promise<PythonTranscriptSegment[] | null> => {
+  // The ID ends up on a command line
+  if (!/^[\w-]{11}$/.test(videoId)) {
+    throw new Error(`Invalid video ID: ${videoId}`);
+  }
+  if (!/^[\w-]+$/.test(language)) {
+    throw new Error(`Invalid language: ${language}`);
+  }
+
+  const { stdout } = await execFileAsync(
+    "youtube_transcript_api",
+    [videoId, "--languages", language, "--format", "json"],
+    { timeout: timeoutMs, maxBuffer: 20 * 1024 * 1024 }
+  );
+
+  // The CLI reports missing transcripts on stdout instead of failing
+  if (stdout.includes("Could not retrieve a transcript")) {
+    return null;
+  }
+
+  // One list of segments per requested video
+  const [segments] = JSON.parse(stdout) as PythonTranscriptSegment[][];
+  return segments ?? null;
+};
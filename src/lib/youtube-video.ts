@@ -0,0 +1,123 @@
+import { VideoDetails, VideoType } from "@/lib/types";
+import { logger } from "@/lib/logger";
+
+const YOUTUBE_API_BASE = "https://www.googleapis.com/youtube/v3";
+const SHORTS_MAX_DURATION_SECONDS = 180;
+
+// Parses ISO 8601 durations like PT1H2M3S; live streams report P0D
+function parseDurationSeconds(duration?: string): number {
+  const match = duration?.match(
+    /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return 0;
+
+  const [, days, hours, minutes, seconds] = match.map((part) =>
+    parseInt(part || "0", 10)
+  );
+  return ((days * 24 + hours) * 60 + minutes) * 60 + seconds;
+}
+
+// The Shorts URL only resolves for Shorts, other videos redirect to /watch
+async function isShort(videoId: string): Promise<boolean> {
+  const response = await fetch(`https://www.youtube.com/shorts/${videoId}`, {
+    method: "HEAD",
+    redirect: "manual",
+  });
+  return response.status === 200;
+}
+
+async function detectVideoType(
+  videoId: string,
+  video: {
+    snippet?: { liveBroadcastContent?: string };
+    liveStreamingDetails?: object;
+  },
+  durationSeconds: number
+): Promise<VideoType> {
+  if (video.liveStreamingDetails) {
+    // A premiere is uploaded before it airs, a stream has no length yet
+    const isScheduledOrLive = video.snippet?.liveBroadcastContent !== "none";
+    return isScheduledOrLive && durationSeconds > 0
+      ? "premiere"
+      : "live_replay";
+  }
+
+  if (
+    durationSeconds > 0 &&
+    durationSeconds <= SHORTS_MAX_DURATION_SECONDS &&
+    (await isShort(videoId))
+  ) {
+    return "short";
+  }
+
+  return "regular";
+}
+
+/**
+ * Checks whether a video can be watched yet and what kind of video it is.
+ * Premieres and scheduled streams are announced by the hub well before
+ * they have captions.
+ * @param videoId - YouTube video ID
+ */
+export async function fetchVideoDetails(
+  videoId: string
+): Promise<VideoDetails> {
+  if (!process.env.YOUTUBE_API_KEY) {
+    logger.warn("⚠️ YOUTUBE_API_KEY missing, assuming video is ready", {
+      prefix: "YouTube API",
+      data: { videoId },
+    });
+    return {
+      status: "ready",
+      scheduledStartAt: null,
+      type: null,
+      durationSeconds: null,
+    };
+  }
+
+  const videosUrl = new URL(`${YOUTUBE_API_BASE}/videos`);
+  videosUrl.searchParams.append(
+    "part",
+    "snippet,status,contentDetails,liveStreamingDetails"
+  );
+  videosUrl.searchParams.append("id", videoId);
+  videosUrl.searchParams.append("key", process.env.YOUTUBE_API_KEY);
+
+  const response = await fetch(videosUrl.toString(), {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Video lookup failed with status ${response.status}`);
+  }
+
+  const { items } = await response.json();
+  const video = items?.[0];
+
+  // Private videos, including scheduled uploads, are not returned at all
+  if (!video) {
+    return {
+      status: "unavailable",
+      scheduledStartAt: null,
+      type: null,
+      durationSeconds: null,
+    };
+  }
+
+  const scheduledStartAt: string | null =
+    video.liveStreamingDetails?.scheduledStartTime ?? null;
+  const durationSeconds = parseDurationSeconds(video.contentDetails?.duration);
+  const type = await detectVideoType(videoId, video, durationSeconds);
+  const details = { scheduledStartAt, type, durationSeconds };
+
+  if (video.snippet?.liveBroadcastContent === "upcoming") {
+    return { status: "upcoming", ...details };
+  }
+  if (video.snippet?.liveBroadcastContent === "live") {
+    return { status: "live", ...details };
+  }
+  if (video.status?.uploadStatus && video.status.uploadStatus !== "processed") {
+    return { status: "processing", ...details };
+  }
+
+  return { status: "ready", ...details };
+}
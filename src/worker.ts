@@ -0,0 +1,55 @@
+import { QueueWorker } from "@/lib/queue-worker";
+import { EmailWorker } from "@/lib/email-worker";
+import { YouTubeSubscriptionWorker } from "@/lib/youtube-subscription-worker";
+import { SubscriptionCheckWorker } from "@/lib/subscription-check-worker";
+import { FeedPollingWorker } from "@/lib/feed-polling-worker";
+import { WorkerRunner } from "@/lib/worker-runner";
+import { getJobQueue } from "@/lib/job-queue";
+import { logger } from "@/lib/logger";
+
+// Entrypoint of the standalone worker process, started with `yarn worker`
+const databaseUrl = process.env.DATABASE_URL;
+if (!databaseUrl) {
+  throw new Error("DATABASE_URL is required for leader election");
+}
+
+const runner = new WorkerRunner(
+  [
+    // PGMQ visibility timeouts make the queue safe to consume from every instance
+    {
+      name: "queue",
+      create: () => new QueueWorker(getJobQueue()),
+      singleton: false,
+    },
+    { name: "email", create: () => new EmailWorker(), singleton: true },
+    {
+      name: "subscription",
+      create: () => new YouTubeSubscriptionWorker(),
+      singleton: true,
+    },
+    {
+      name: "subscription-check",
+      create: () => new SubscriptionCheckWorker(),
+      singleton: true,
+    },
+    { name: "feed", create: () => new FeedPollingWorker(), singleton: true },
+  ],
+  {
+    databaseUrl,
+    healthPort: parseInt(process.env.WORKER_HEALTH_PORT || "8081", 10),
+  }
+);
+
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, () => {
+    runner.shutdown(signal).finally(() => process.exit(0));
+  });
+}
+
+runner.start().catch((error) => {
+  logger.error("💥 Worker runner failed to start", {
+    prefix: "Runner",
+    data: { error: error instanceof Error ? error.message : "Unknown error" },
+  });
+  process.exit(1);
+});